@@ -1,11 +1,18 @@
 import { useState } from "react";
 import { Link } from "react-router";
 import type { FileChange, ChangeType } from "~/types";
+import { isMetadataChange } from "~/utils/changes";
+import { buildDownloadUrl } from "~/utils/download";
+import { RestoreDialog } from "./RestoreDialog";
 
 interface ChangesViewProps {
   changes: FileChange[];
   oldSnapshotPath: string;
   newSnapshotPath: string;
+  // Imported comparisons have no snapshots to diff or browse
+  virtual?: boolean;
+  // newSnapshotPath is the live source subvolume
+  live?: boolean;
 }
 
 // Tree node structure for hierarchical display
@@ -14,6 +21,7 @@ interface TreeNode {
   path: string;
   isFolder: boolean;
   change?: FileChange;
+  metadata: FileChange[]; // chmod/chown/utimes/xattr changes of this path
   children: TreeNode[];
 }
 
@@ -75,8 +83,41 @@ const changeTypeConfig: Record<
     bgColor: "bg-cyan-100 dark:bg-cyan-900/30",
     icon: "M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z",
   },
+  typechange: {
+    label: "Type changed",
+    color: "text-orange-700 dark:text-orange-300",
+    bgColor: "bg-orange-100 dark:bg-orange-900/30",
+    icon: "M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15",
+  },
+  chmod: {
+    label: "Permissions",
+    color: "text-rose-700 dark:text-rose-300",
+    bgColor: "bg-rose-100 dark:bg-rose-900/30",
+    icon: "M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z",
+  },
+  chown: {
+    label: "Ownership",
+    color: "text-indigo-700 dark:text-indigo-300",
+    bgColor: "bg-indigo-100 dark:bg-indigo-900/30",
+    icon: "M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z",
+  },
+  utimes: {
+    label: "Timestamp",
+    color: "text-gray-700 dark:text-gray-300",
+    bgColor: "bg-gray-100 dark:bg-gray-700/50",
+    icon: "M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z",
+  },
+  xattr: {
+    label: "Xattr",
+    color: "text-teal-700 dark:text-teal-300",
+    bgColor: "bg-teal-100 dark:bg-teal-900/30",
+    icon: "M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z",
+  },
 };
 
+// Metadata change types, in toggle order
+const METADATA_TYPES: ChangeType[] = ["chmod", "chown", "xattr", "utimes"];
+
 function formatSize(bytes?: number): string {
   if (bytes === undefined) return "";
   if (bytes < 1024) return `${bytes} B`;
@@ -84,6 +125,62 @@ function formatSize(bytes?: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+function cloneSourceCount(change: FileChange): number {
+  return new Set(change.clones?.map((clone) => clone.path)).size;
+}
+
+/**
+ * Strip showing which regions of a modified file were rewritten
+ * Without a known file size the strip spans up to the last changed byte
+ */
+function WriteMap({ change }: { change: FileChange }) {
+  const ranges = change.ranges;
+  if (!ranges || ranges.length === 0) return null;
+
+  const length = Math.max(change.fileSize ?? 0, ranges[ranges.length - 1][1]);
+  const written = change.size ?? 0;
+  const percent = change.fileSize ? Math.min(100, (written / change.fileSize) * 100) : null;
+
+  return (
+    <span
+      className="shrink-0 flex items-center gap-1.5"
+      title={`${formatSize(written)} rewritten in ${ranges.length} region${ranges.length !== 1 ? "s" : ""}${
+        change.fileSize !== undefined ? ` of ${formatSize(change.fileSize)}` : ""
+      }`}
+    >
+      <span className="relative w-24 h-2 rounded-sm bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        {ranges.map(([start, end]) => (
+          <span
+            key={start}
+            className="absolute inset-y-0 bg-amber-500 dark:bg-amber-400"
+            style={{
+              left: `${(start / length) * 100}%`,
+              // Keep tiny writes visible
+              width: `max(1px, ${((end - start) / length) * 100}%)`,
+            }}
+          />
+        ))}
+        {/* Reflinked regions on top of written ones */}
+        {change.clones?.map((clone) => (
+          <span
+            key={`clone-${clone.offset}`}
+            className="absolute inset-y-0 bg-cyan-500 dark:bg-cyan-400"
+            style={{
+              left: `${(clone.offset / length) * 100}%`,
+              width: `max(1px, ${(clone.length / length) * 100}%)`,
+            }}
+          />
+        ))}
+      </span>
+      {percent !== null && (
+        <span className="text-xs text-gray-500 dark:text-gray-400 w-10 text-right">
+          {percent < 1 && percent > 0 ? "<1" : Math.round(percent)}%
+        </span>
+      )}
+    </span>
+  );
+}
+
 // Simple folder icon
 function FolderIcon({ className }: { className?: string }) {
   return (
@@ -160,14 +257,17 @@ function buildTree(changes: FileChange[]): TreeNode[] {
           name: segment,
           path: currentPath,
           isFolder: !isLast,
+          metadata: [],
           children: [],
         };
         nodeMap.set(currentPath, node);
         currentLevel.push(node);
       }
 
-      // If this is the file with the change, attach the change info
-      if (isLast) {
+      // Metadata changes are listed under the path's own change
+      if (isLast && isMetadataChange(change)) {
+        node.metadata.push(change);
+      } else if (isLast) {
         node.change = change;
         // Folder operations (mkdir, rmdir) are folders
         node.isFolder = change.type === "mkdir" || change.type === "rmdir";
@@ -195,6 +295,9 @@ function TreeNodeComponent({
   onToggle,
   oldSnapshotPath,
   newSnapshotPath,
+  virtual,
+  live,
+  onRestore,
 }: {
   node: TreeNode;
   depth: number;
@@ -202,20 +305,36 @@ function TreeNodeComponent({
   onToggle: (path: string) => void;
   oldSnapshotPath: string;
   newSnapshotPath: string;
+  virtual?: boolean;
+  live?: boolean;
+  onRestore?: (path: string) => void;
 }) {
   const isCollapsed = collapsed.has(node.path);
   const hasChildren = node.children.length > 0;
   const config = node.change ? changeTypeConfig[node.change.type] : null;
   const diffUrl =
-    node.change && canDiff(node.change)
-      ? `/diff?old=${encodeURIComponent(oldSnapshotPath)}&new=${encodeURIComponent(newSnapshotPath)}&file=${encodeURIComponent(node.change.path)}`
+    !virtual && node.change && canDiff(node.change)
+      ? `/diff?old=${encodeURIComponent(oldSnapshotPath)}&new=${encodeURIComponent(newSnapshotPath)}&file=${encodeURIComponent(node.change.path)}${live ? "&live=1" : ""}`
       : null;
 
   // Extract subvolume from snapshot path (e.g., "/@snapshots/2026-01-29_00:00:01" -> "/@snapshots")
   const subvolume = oldSnapshotPath.split('/').slice(0, 2).join('/');
-  const historyUrl = !node.isFolder && node.change
+  const historyUrl = !virtual && !node.isFolder && node.change
     ? `/file-history?subvolume=${encodeURIComponent(subvolume)}&file=${encodeURIComponent(node.change.path)}`
     : null;
+  // The old snapshot has the path as it was before the change, unless the change created it
+  const restorePath =
+    onRestore && node.change && !["mkdir", "link", "symlink"].includes(node.change.type)
+      ? node.change.type === "rename" && node.change.oldPath
+        ? node.change.oldPath
+        : node.change.path
+      : null;
+  // Deleted paths only exist in the old snapshot; folders download as .tar.gz
+  const downloadUrl = virtual
+    ? null
+    : node.change && ["unlink", "rmdir"].includes(node.change.type)
+      ? buildDownloadUrl(oldSnapshotPath, node.path)
+      : buildDownloadUrl(newSnapshotPath, node.path);
 
   return (
     <div>
@@ -251,7 +370,7 @@ function TreeNodeComponent({
             className={`w-4 h-4 shrink-0 ${
               node.change?.type === "unlink"
                 ? "text-red-400 dark:text-red-500"
-                : node.change?.type === "write" || node.change?.type === "truncate"
+                : node.change?.type === "write" || node.change?.type === "truncate" || node.change?.type === "typechange"
                   ? "text-amber-400 dark:text-amber-500"
                   : node.change?.type === "link" || node.change?.type === "symlink"
                     ? "text-green-400 dark:text-green-500"
@@ -292,8 +411,32 @@ function TreeNodeComponent({
               from: {node.change.oldPath}
             </span>
           )}
+
+          {/* Reflink info */}
+          {node.change?.clonedBytes !== undefined && (
+            <span
+              className="text-xs text-cyan-700 dark:text-cyan-300 truncate"
+              title={node.change.clones
+                ?.map((clone) => `${formatSize(clone.length)} from ${clone.path} @ ${clone.sourceOffset}`)
+                .join("\n")}
+            >
+              {formatSize(node.change.clonedBytes)} reflinked
+              {node.change.clones?.length ? ` from ${node.change.clones[0].path}` : ""}
+              {cloneSourceCount(node.change) > 1 && ` and ${cloneSourceCount(node.change) - 1} more`}
+            </span>
+          )}
+
+          {/* Hardlink info */}
+          {node.change?.linkedTo && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+              linked to: {node.change.linkedTo}
+            </span>
+          )}
         </div>
 
+        {/* Changed regions */}
+        {node.change && <WriteMap change={node.change} />}
+
         {/* Size */}
         {node.change?.size !== undefined && (
           <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
@@ -346,8 +489,75 @@ function TreeNodeComponent({
             </svg>
           </Link>
         )}
+
+        {/* Download */}
+        {downloadUrl && (
+          <a
+            href={downloadUrl}
+            download
+            className="shrink-0 text-gray-400 hover:text-blue-500"
+            title={node.isFolder ? "Download as .tar.gz" : "Download"}
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+              />
+            </svg>
+          </a>
+        )}
+
+        {/* Restore the old version */}
+        {restorePath && (
+          <button
+            onClick={() => onRestore!(restorePath)}
+            className="shrink-0 text-gray-400 hover:text-emerald-500 cursor-pointer"
+            title="Restore the version from the older snapshot"
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+              />
+            </svg>
+          </button>
+        )}
       </div>
 
+      {/* Metadata changes */}
+      {node.metadata.map((change) => {
+        const metadataConfig = changeTypeConfig[change.type];
+        return (
+          <div
+            key={`${change.type}:${change.metadata?.attribute}`}
+            className="flex items-center gap-2 py-0.5 px-2 -mx-2 text-xs"
+            style={{ paddingLeft: `${depth * 16 + 32}px` }}
+          >
+            <span className={`shrink-0 font-medium px-1.5 py-0.5 rounded ${metadataConfig.bgColor} ${metadataConfig.color}`}>
+              {metadataConfig.label}
+            </span>
+            <span className="font-mono text-gray-600 dark:text-gray-300 truncate">
+              {change.type === "xattr" && `${change.metadata?.attribute}: `}
+              {change.metadata?.oldValue ?? "?"} → {change.metadata?.newValue ?? "(removed)"}
+            </span>
+          </div>
+        );
+      })}
+
       {/* Render children if not collapsed */}
       {hasChildren && !isCollapsed && (
         <div>
@@ -360,6 +570,9 @@ function TreeNodeComponent({
               onToggle={onToggle}
               oldSnapshotPath={oldSnapshotPath}
               newSnapshotPath={newSnapshotPath}
+              virtual={virtual}
+              live={live}
+              onRestore={onRestore}
             />
           ))}
         </div>
@@ -372,12 +585,38 @@ export function ChangesView({
   changes,
   oldSnapshotPath,
   newSnapshotPath,
+  virtual,
+  live,
 }: ChangesViewProps) {
   // Track collapsed folder paths
   const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  // Timestamps change on nearly every touched path, so start with them hidden
+  const [hiddenMetadata, setHiddenMetadata] = useState<Set<ChangeType>>(new Set(["utimes"]));
+  const [restorePath, setRestorePath] = useState<string | null>(null);
+
+  const metadataCounts = new Map<ChangeType, number>();
+  for (const change of changes) {
+    if (isMetadataChange(change)) {
+      metadataCounts.set(change.type, (metadataCounts.get(change.type) || 0) + 1);
+    }
+  }
 
   // Build tree structure from flat changes
-  const tree = buildTree(changes);
+  const tree = buildTree(
+    changes.filter((change) => !isMetadataChange(change) || !hiddenMetadata.has(change.type))
+  );
+
+  const toggleMetadata = (type: ChangeType) => {
+    setHiddenMetadata((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
 
   const handleToggle = (path: string) => {
     setCollapsed((prev) => {
@@ -393,6 +632,29 @@ export function ChangesView({
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+      {/* Metadata toggles, only when metadata changes were requested */}
+      {metadataCounts.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 pb-3 border-b border-gray-200 dark:border-gray-700">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Show metadata:</span>
+          {METADATA_TYPES.filter((type) => metadataCounts.has(type)).map((type) => {
+            const config = changeTypeConfig[type];
+            const visible = !hiddenMetadata.has(type);
+            return (
+              <button
+                key={type}
+                onClick={() => toggleMetadata(type)}
+                className={`text-xs font-medium px-2 py-0.5 rounded border cursor-pointer ${
+                  visible
+                    ? `${config.bgColor} ${config.color} border-transparent`
+                    : "text-gray-400 dark:text-gray-500 border-gray-300 dark:border-gray-600"
+                }`}
+              >
+                {config.label} ({metadataCounts.get(type)})
+              </button>
+            );
+          })}
+        </div>
+      )}
       {tree.map((node) => (
         <TreeNodeComponent
           key={node.path}
@@ -402,8 +664,19 @@ export function ChangesView({
           onToggle={handleToggle}
           oldSnapshotPath={oldSnapshotPath}
           newSnapshotPath={newSnapshotPath}
+          virtual={virtual}
+          live={live}
+          onRestore={virtual ? undefined : setRestorePath}
         />
       ))}
+
+      {restorePath && (
+        <RestoreDialog
+          snapshotPath={oldSnapshotPath}
+          path={restorePath}
+          onClose={() => setRestorePath(null)}
+        />
+      )}
     </div>
   );
 }
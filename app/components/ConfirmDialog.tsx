@@ -0,0 +1,81 @@
+import { useState, type ReactNode } from "react";
+
+interface ConfirmDialogProps {
+  title: string;
+  children?: ReactNode;
+  confirmText: string; // What the user has to type to enable the action
+  actionLabel: string;
+  danger?: boolean;
+  onConfirm: (typed: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Modal that only runs its action once the user has typed confirmText
+ */
+export function ConfirmDialog({
+  title,
+  children,
+  confirmText,
+  actionLabel,
+  danger = false,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  const [typed, setTyped] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      await onConfirm(typed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-md">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h2>
+        <div className="mt-3 text-sm text-gray-600 dark:text-gray-300 space-y-3">{children}</div>
+
+        <label className="block mt-4 text-sm text-gray-600 dark:text-gray-300">
+          Type <code className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white">{confirmText}</code> to
+          confirm
+          <input
+            type="text"
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            autoFocus
+            className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 font-mono"
+          />
+        </label>
+
+        {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={isRunning}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors cursor-pointer"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={typed !== confirmText || isRunning}
+            className={`px-4 py-2 text-sm text-white font-medium rounded-lg transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+              danger ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+            }`}
+          >
+            {isRunning ? "Working..." : actionLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
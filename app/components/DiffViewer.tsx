@@ -2,6 +2,8 @@ import type { FileDiff } from "~/types";
 
 interface DiffViewerProps {
   diff: FileDiff;
+  // The newer side is a file in the live subvolume
+  live?: boolean;
 }
 
 interface DiffLine {
@@ -54,7 +56,7 @@ function parseDiff(unifiedDiff: string): DiffLine[] {
   return lines;
 }
 
-export function DiffViewer({ diff }: DiffViewerProps) {
+export function DiffViewer({ diff, live }: DiffViewerProps) {
   if (diff.isBinary) {
     return (
       <div className="p-8 text-center bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
@@ -130,6 +132,11 @@ export function DiffViewer({ diff }: DiffViewerProps) {
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {live && (
+        <div className="px-3 py-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border-b border-gray-200 dark:border-gray-700">
+          The newer side is the live file and may have changed since this page loaded.
+        </div>
+      )}
       <div className="overflow-x-auto">
         <table className="w-full text-sm font-mono">
           <tbody>
@@ -7,6 +7,8 @@ interface FileBrowserProps {
   onNavigate: (path: string, isDirectory: boolean) => void;
   onGoUp: () => void;
   onViewHistory: (filePath: string) => void;
+  onRestore?: (filePath: string) => void;
+  getDownloadUrl?: (filePath: string) => string;
 }
 
 export function FileBrowser({
@@ -14,7 +16,9 @@ export function FileBrowser({
   directory,
   onNavigate,
   onGoUp,
-  onViewHistory
+  onViewHistory,
+  onRestore,
+  getDownloadUrl
 }: FileBrowserProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
@@ -24,7 +28,7 @@ export function FileBrowser({
           <div className="flex-1">Name</div>
           <div className="w-24 text-right">Size</div>
           <div className="w-32">Modified</div>
-          <div className="w-20">Actions</div>
+          <div className="w-28">Actions</div>
         </div>
       </div>
 
@@ -44,7 +48,7 @@ export function FileBrowser({
             </div>
             <div className="w-24"></div>
             <div className="w-32"></div>
-            <div className="w-20"></div>
+            <div className="w-28"></div>
           </button>
         )}
 
@@ -60,6 +64,8 @@ export function FileBrowser({
               file={file}
               onNavigate={onNavigate}
               onViewHistory={onViewHistory}
+              onRestore={onRestore}
+              getDownloadUrl={getDownloadUrl}
             />
           ))
         )}
@@ -72,9 +78,11 @@ interface FileRowProps {
   file: DirectoryEntry;
   onNavigate: (path: string, isDirectory: boolean) => void;
   onViewHistory: (filePath: string) => void;
+  onRestore?: (filePath: string) => void;
+  getDownloadUrl?: (filePath: string) => string;
 }
 
-function FileRow({ file, onNavigate, onViewHistory }: FileRowProps) {
+function FileRow({ file, onNavigate, onViewHistory, onRestore, getDownloadUrl }: FileRowProps) {
   const icon = file.isDirectory ? '📁' : '📄';
 
   return (
@@ -107,7 +115,7 @@ function FileRow({ file, onNavigate, onViewHistory }: FileRowProps) {
       </div>
 
       {/* Actions */}
-      <div className="w-20 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+      <div className="w-28 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
         {!file.isDirectory && (
           <>
             <button
@@ -134,6 +142,53 @@ function FileRow({ file, onNavigate, onViewHistory }: FileRowProps) {
             </button>
           </>
         )}
+        {getDownloadUrl && (
+          <a
+            href={getDownloadUrl(file.path)}
+            download
+            onClick={(e) => e.stopPropagation()}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title={file.isDirectory ? 'Download as .tar.gz' : 'Download file'}
+          >
+            <svg
+              className="w-4 h-4 text-gray-600 dark:text-gray-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+              />
+            </svg>
+          </a>
+        )}
+        {onRestore && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onRestore(file.path);
+            }}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded transition-colors"
+            title={file.isDirectory ? 'Restore directory' : 'Restore file'}
+          >
+            <svg
+              className="w-4 h-4 text-gray-600 dark:text-gray-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+              />
+            </svg>
+          </button>
+        )}
       </div>
     </div>
   );
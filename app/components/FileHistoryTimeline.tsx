@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { Link } from 'react-router';
 import type { FileTimeline } from '~/types';
 import { formatSize, formatDate } from '~/utils/format';
+import { getSnapshotName } from '~/utils/btrfs';
+import { RestoreDialog } from './RestoreDialog';
 
 interface FileHistoryTimelineProps {
   timeline: FileTimeline;
@@ -10,6 +12,7 @@ interface FileHistoryTimelineProps {
 
 export function FileHistoryTimeline({ timeline, subvolume }: FileHistoryTimelineProps) {
   const [selectedSnapshots, setSelectedSnapshots] = useState<[string?, string?]>([]);
+  const [restoring, setRestoring] = useState<{ snapshotPath: string; path: string } | null>(null);
 
   const handleSelect = (snapshotPath: string) => {
     setSelectedSnapshots(([first, second]) => {
@@ -108,8 +111,19 @@ export function FileHistoryTimeline({ timeline, subvolume }: FileHistoryTimeline
                           className="text-blue-600 dark:text-blue-400 hover:underline"
                           onClick={(e) => e.stopPropagation()}
                         >
-                          {entry.snapshotPath.split('/').pop()}
+                          {getSnapshotName(entry.snapshotPath)}
                         </Link>
+                        {entry.changeType !== 'deleted' && (
+                          <>
+                            <span className="mx-2">•</span>
+                            <button
+                              onClick={() => setRestoring({ snapshotPath: entry.snapshotPath, path: entry.path })}
+                              className="text-emerald-600 dark:text-emerald-400 hover:underline cursor-pointer"
+                            >
+                              Restore this version
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
 
@@ -218,10 +232,10 @@ export function FileHistoryTimeline({ timeline, subvolume }: FileHistoryTimeline
           <div className="container mx-auto flex items-center justify-between gap-4">
             <div className="text-sm text-gray-600 dark:text-gray-300">
               <p>
-                <strong>Older:</strong> {selectedSnapshots[0].split('/').pop()}
+                <strong>Older:</strong> {getSnapshotName(selectedSnapshots[0])}
               </p>
               <p>
-                <strong>Newer:</strong> {selectedSnapshots[1]?.split('/').pop()}
+                <strong>Newer:</strong> {selectedSnapshots[1] && getSnapshotName(selectedSnapshots[1])}
               </p>
             </div>
             <button
@@ -233,6 +247,14 @@ export function FileHistoryTimeline({ timeline, subvolume }: FileHistoryTimeline
           </div>
         </div>
       )}
+
+      {restoring && (
+        <RestoreDialog
+          snapshotPath={restoring.snapshotPath}
+          path={restoring.path}
+          onClose={() => setRestoring(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,106 @@
+import { Link } from "react-router";
+import type { Subvolume } from "~/types";
+import { getSnapshotName } from "~/utils/btrfs";
+import { buildLineage, type Lineage } from "~/utils/lineage";
+
+interface LineageGraphProps {
+  subvolumes: Subvolume[];
+}
+
+function countDescendants(lineage: Lineage, path: string): number {
+  const children = lineage.childrenOf.get(path) ?? [];
+  return children.reduce((total, child) => total + 1 + countDescendants(lineage, child.path), 0);
+}
+
+function LineageNode({ subvolume, lineage }: { subvolume: Subvolume; lineage: Lineage }) {
+  const children = [...(lineage.childrenOf.get(subvolume.path) ?? [])].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  return (
+    <li>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-900 dark:text-white" title={subvolume.path}>
+          {getSnapshotName(subvolume.path)}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {new Date(subvolume.createdAt).toLocaleDateString()}
+        </span>
+        {subvolume.receivedUuid && (
+          <span
+            className="text-xs px-1.5 py-0.5 rounded bg-cyan-100 dark:bg-cyan-900/40 text-cyan-700 dark:text-cyan-300"
+            title={`Received UUID ${subvolume.receivedUuid}`}
+          >
+            received
+          </span>
+        )}
+      </div>
+      {children.length > 0 && (
+        <ul className="ml-2 pl-4 border-l border-gray-200 dark:border-gray-700 space-y-1 mt-1">
+          {children.map((child) => (
+            <LineageNode key={child.path} subvolume={child} lineage={lineage} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Subvolumes and the snapshots taken or received from them, as trees
+ * Snapshots whose origin is missing start trees of their own
+ */
+export function LineageGraph({ subvolumes }: LineageGraphProps) {
+  const lineage = buildLineage(subvolumes);
+  const roots = subvolumes.filter(
+    (sv) => !lineage.parentOf.has(sv.path) && (!sv.isSnapshot || lineage.childrenOf.has(sv.path))
+  );
+
+  if (roots.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {roots.map((root) => {
+        const children = [...(lineage.childrenOf.get(root.path) ?? [])].sort(
+          (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+
+        return (
+          <details
+            key={root.path}
+            className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+          >
+            <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+              <Link
+                to={`/snapshots/${encodeURIComponent(root.path)}`}
+                className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {root.path}
+              </Link>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {countDescendants(lineage, root.path)} snapshots
+              </span>
+              {root.isSnapshot && (
+                <span
+                  className="text-xs px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300"
+                  title="The subvolume this was snapshotted or received from is not on this filesystem"
+                >
+                  origin missing
+                </span>
+              )}
+            </summary>
+            {children.length > 0 && (
+              <ul className="mt-3 pl-4 border-l border-gray-200 dark:border-gray-700 space-y-1">
+                {children.map((child) => (
+                  <LineageNode key={child.path} subvolume={child} lineage={lineage} />
+                ))}
+              </ul>
+            )}
+          </details>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import type { ReclaimEstimate } from "~/types";
+import { formatSize } from "~/utils/format";
+
+interface ReclaimPanelProps {
+  subvolumePath: string;
+  markedSnapshots: string[];
+  onClear: () => void;
+  onDelete?: () => void; // Set when snapshots can be deleted from the UI
+}
+
+/**
+ * Bottom bar estimating the space deleting the marked snapshots would free
+ */
+export function ReclaimPanel({ subvolumePath, markedSnapshots, onClear, onDelete }: ReclaimPanelProps) {
+  const [estimate, setEstimate] = useState<ReclaimEstimate | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (markedSnapshots.length === 0) {
+      setEstimate(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({ subvolume: subvolumePath });
+    for (const path of markedSnapshots) params.append("snapshot", path);
+
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/reclaim-estimate?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        if (!response.ok) throw new Error(await response.text());
+        setEstimate(await response.json());
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [subvolumePath, markedSnapshots]);
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 p-4 shadow-lg">
+      <div className="max-w-4xl mx-auto flex items-center justify-between gap-4">
+        <div className="text-sm text-gray-600 dark:text-gray-300 min-w-0">
+          {markedSnapshots.length === 0 ? (
+            <p>Click snapshots to see how much space deleting them would free.</p>
+          ) : error ? (
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          ) : !estimate || isLoading ? (
+            <p>Estimating...</p>
+          ) : (
+            <>
+              <p>
+                Deleting {estimate.snapshotCount} snapshot{estimate.snapshotCount !== 1 ? "s" : ""} would free about{" "}
+                <strong className="text-gray-900 dark:text-white">{formatSize(estimate.totalBytes)}</strong>
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {formatSize(estimate.exclusiveBytes)} exclusive ({estimate.exclusiveSource})
+                {estimate.sharedSource
+                  ? ` + ${formatSize(estimate.sharedBytes)} shared only among them (${estimate.sharedSource})`
+                  : " · build the file history index to include data they share"}
+              </p>
+            </>
+          )}
+        </div>
+        {markedSnapshots.length > 0 && (
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={onClear}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors cursor-pointer"
+            >
+              Clear
+            </button>
+            {onDelete && (
+              <button
+                onClick={onDelete}
+                className="px-3 py-2 text-sm bg-red-600 hover:bg-red-700 text-white font-medium rounded-lg transition-colors cursor-pointer"
+              >
+                Delete…
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import type { RestoreResult } from "~/types";
+import { formatSize } from "~/utils/format";
+
+interface RestoreDialogProps {
+  snapshotPath: string;
+  path: string; // File or directory inside the snapshot
+  onClose: () => void;
+}
+
+async function postRestore(body: Record<string, unknown>, signal?: AbortSignal): Promise<RestoreResult> {
+  const response = await fetch("/api/restore", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  return response.json();
+}
+
+/**
+ * Restore a path from a snapshot, previewed with a dry run first
+ */
+export function RestoreDialog({ snapshotPath, path, onClose }: RestoreDialogProps) {
+  const [targetMode, setTargetMode] = useState<"live" | "dir">("live");
+  const [targetDir, setTargetDir] = useState("");
+  const [conflict, setConflict] = useState<"rename" | "overwrite">("rename");
+  const [typed, setTyped] = useState("");
+  const [preview, setPreview] = useState<RestoreResult | null>(null);
+  const [restored, setRestored] = useState<RestoreResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = targetMode === "dir" ? targetDir : undefined;
+
+  // Dry run whenever the options change
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    if (targetMode === "dir" && !targetDir) return;
+
+    const controller = new AbortController();
+    postRestore({ snapshot: snapshotPath, path, target, conflict, dryRun: true }, controller.signal)
+      .then(setPreview)
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => controller.abort();
+  }, [snapshotPath, path, targetMode, targetDir, conflict]);
+
+  const handleRestore = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      setRestored(await postRestore({ snapshot: snapshotPath, path, target, conflict, dryRun: false, confirm: typed }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-lg">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Restore from snapshot</h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400 break-all font-mono">
+          {snapshotPath}
+          {path}
+        </p>
+
+        {restored ? (
+          <p className="mt-4 text-sm text-green-700 dark:text-green-300">
+            Restored to <code className="break-all">{restored.targetPath}</code>.
+          </p>
+        ) : (
+          <div className="mt-4 space-y-3 text-sm text-gray-600 dark:text-gray-300">
+            <fieldset className="space-y-1">
+              <legend className="font-medium text-gray-900 dark:text-white mb-1">Restore to</legend>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={targetMode === "live"} onChange={() => setTargetMode("live")} />
+                Its original location in the live subvolume
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={targetMode === "dir"} onChange={() => setTargetMode("dir")} />
+                Another directory
+              </label>
+              {targetMode === "dir" && (
+                <input
+                  type="text"
+                  value={targetDir}
+                  onChange={(e) => setTargetDir(e.target.value)}
+                  placeholder="/@home/user/restored"
+                  className="ml-6 w-[calc(100%-1.5rem)] rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 font-mono"
+                />
+              )}
+            </fieldset>
+
+            <label className="flex items-center gap-2">
+              If it already exists
+              <select
+                value={conflict}
+                onChange={(e) => setConflict(e.target.value as typeof conflict)}
+                className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1"
+              >
+                <option value="rename">Keep it and restore under a new name</option>
+                <option value="overwrite">Replace it</option>
+              </select>
+            </label>
+
+            {/* Dry run preview */}
+            <div className="p-3 rounded bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700">
+              {error ? (
+                <p className="text-red-600 dark:text-red-400">{error}</p>
+              ) : !preview ? (
+                <p>{targetMode === "dir" && !targetDir ? "Enter a directory." : "Checking..."}</p>
+              ) : (
+                <>
+                  <p>
+                    Copies {preview.isDirectory ? `${preview.files} file${preview.files !== 1 ? "s" : ""}` : "the file"} (
+                    {formatSize(preview.bytes)}) to{" "}
+                    <code className="break-all text-gray-900 dark:text-white">{preview.targetPath}</code>, sharing
+                    data with the snapshot where the filesystem allows.
+                  </p>
+                  {preview.conflict === "overwrite" && (
+                    <>
+                      <p className="mt-1 text-red-600 dark:text-red-400">
+                        The existing {preview.isDirectory ? "directory and everything in it" : "file"} will be replaced.
+                      </p>
+                      <label className="block mt-2">
+                        Type{" "}
+                        <code className="px-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-white break-all">
+                          {preview.targetPath}
+                        </code>{" "}
+                        to confirm
+                        <input
+                          type="text"
+                          value={typed}
+                          onChange={(e) => setTyped(e.target.value)}
+                          className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 font-mono"
+                        />
+                      </label>
+                    </>
+                  )}
+                  {preview.conflict === "rename" && (
+                    <p className="mt-1">It already exists, so the copy gets a new name.</p>
+                  )}
+                  {!preview.allowed && (
+                    <p className="mt-1 text-amber-700 dark:text-amber-300">
+                      Restoring is disabled. Set ALLOW_SNAPSHOT_MANAGEMENT=true to enable it.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isRunning}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors cursor-pointer"
+          >
+            {restored ? "Close" : "Cancel"}
+          </button>
+          {!restored && (
+            <button
+              onClick={handleRestore}
+              disabled={
+                !preview || !preview.allowed || isRunning || (preview.conflict === "overwrite" && typed !== preview.targetPath)
+              }
+              className={`px-4 py-2 text-sm text-white font-medium rounded-lg transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed ${
+                preview?.conflict === "overwrite" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+              }`}
+            >
+              {isRunning ? "Restoring..." : "Restore"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,23 @@
 import { Link } from "react-router";
 import type { Snapshot } from "~/types";
+import { getSnapshotName } from "~/utils/btrfs";
+import { formatSize } from "~/utils/format";
+import type { RetentionDecision } from "~/utils/retention";
 
 interface TimelineProps {
   snapshots: Snapshot[];
   selectedSnapshots: [string | null, string | null];
   onSnapshotClick: (snapshotPath: string) => void;
+  markedSnapshots?: string[]; // Marked for deletion in what-if mode
+  retention?: Map<string, RetentionDecision>; // Simulated retention policy result
 }
 
 export function Timeline({
   snapshots,
   selectedSnapshots,
   onSnapshotClick,
+  markedSnapshots = [],
+  retention,
 }: TimelineProps) {
   const [firstSelected, secondSelected] = selectedSnapshots;
 
@@ -30,10 +37,13 @@ export function Timeline({
     });
   };
 
-  const getSnapshotName = (path: string) => {
-    const parts = path.split("/");
-    return parts[parts.length - 1];
-  };
+  // Snapper snapshots by number, to find the pre snapshot of a post
+  const snapperByNumber = new Map(
+    snapshots.filter((s) => s.snapper).map((s) => [s.snapper!.number, s])
+  );
+
+  // Usage bars are relative to the largest snapshot
+  const maxExclusive = Math.max(0, ...snapshots.map((s) => s.exclusiveBytes ?? 0));
 
   return (
     <div className="relative">
@@ -44,6 +54,11 @@ export function Timeline({
         {snapshots.map((snapshot, index) => {
           const selectionState = getSelectionState(snapshot.path);
           const isSelected = selectionState !== null;
+          const isMarked = markedSnapshots.includes(snapshot.path);
+          const decision = retention?.get(snapshot.path);
+          const isPruned = decision !== undefined && !decision.keep;
+          const snapper = snapshot.snapper;
+          const preSnapshot = snapper?.preNumber !== undefined ? snapperByNumber.get(snapper.preNumber) : undefined;
 
           return (
             <div key={snapshot.id} className="relative pl-10">
@@ -51,7 +66,9 @@ export function Timeline({
               <button
                 onClick={() => onSnapshotClick(snapshot.path)}
                 className={`absolute left-2 w-5 h-5 rounded-full border-2 transition-all cursor-pointer ${
-                  selectionState === "first"
+                  isMarked
+                    ? "bg-red-500 border-red-500 ring-2 ring-red-200 dark:ring-red-800"
+                    : selectionState === "first"
                     ? "bg-blue-500 border-blue-500 ring-2 ring-blue-200 dark:ring-blue-800"
                     : selectionState === "second"
                       ? "bg-green-500 border-green-500 ring-2 ring-green-200 dark:ring-green-800"
@@ -63,8 +80,10 @@ export function Timeline({
               {/* Card */}
               <div
                 onClick={() => onSnapshotClick(snapshot.path)}
-                className={`p-4 rounded-lg border cursor-pointer transition-all ${
-                  isSelected
+                className={`p-4 rounded-lg border cursor-pointer transition-all ${isPruned ? "opacity-60 " : ""}${
+                  isMarked
+                    ? "bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700"
+                    : isSelected
                     ? selectionState === "first"
                       ? "bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700"
                       : "bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700"
@@ -82,8 +101,26 @@ export function Timeline({
                           : "text-gray-900 dark:text-white"
                       }`}
                     >
-                      {getSnapshotName(snapshot.path)}
+                      {snapper ? `#${snapper.number}` : getSnapshotName(snapshot.path)}
+                      {snapper && snapper.type !== "single" && (
+                        <span
+                          className={`ml-2 text-xs font-normal px-1.5 py-0.5 rounded ${
+                            snapper.type === "pre"
+                              ? "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300"
+                              : "bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300"
+                          }`}
+                        >
+                          {snapper.type === "post" && snapper.preNumber !== undefined
+                            ? `post of #${snapper.preNumber}`
+                            : snapper.type}
+                        </span>
+                      )}
                     </h3>
+                    {snapper?.description && (
+                      <p className="text-sm text-gray-700 dark:text-gray-200 mt-1 truncate" title={snapper.description}>
+                        {snapper.description}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                       {formatDate(snapshot.createdAt)}
                     </p>
@@ -93,8 +130,59 @@ export function Timeline({
                     >
                       {snapshot.path}
                     </p>
+                    {snapshot.retentionClass && (
+                      <span className="inline-block mt-1 text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                        {snapshot.retentionClass}
+                      </span>
+                    )}
+                    {decision?.keep && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {decision.reasons.map((reason) => (
+                          <span
+                            key={reason}
+                            className="text-xs px-1.5 py-0.5 rounded bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300"
+                          >
+                            {reason}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {snapper && (snapper.cleanup || Object.keys(snapper.userdata).length > 0) && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {snapper.cleanup && (
+                          <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                            cleanup: {snapper.cleanup}
+                          </span>
+                        )}
+                        {Object.entries(snapper.userdata).map(([key, value]) => (
+                          <span
+                            key={key}
+                            className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                          >
+                            {key}={value}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
+                  {isMarked && (
+                    <span className="shrink-0 text-xs font-medium px-2 py-1 rounded bg-red-100 dark:bg-red-800 text-red-700 dark:text-red-200">
+                      Delete
+                    </span>
+                  )}
+                  {decision && !isMarked && (
+                    <span
+                      className={`shrink-0 text-xs font-medium px-2 py-1 rounded ${
+                        decision.keep
+                          ? "bg-emerald-100 dark:bg-emerald-800 text-emerald-700 dark:text-emerald-200"
+                          : "bg-red-100 dark:bg-red-800 text-red-700 dark:text-red-200"
+                      }`}
+                      title={decision.keep ? "Kept by the retention policy" : "Not kept by any retention period"}
+                    >
+                      {decision.keep ? "Keep" : "Prune"}
+                    </span>
+                  )}
                   {isSelected && (
                     <span
                       className={`shrink-0 text-xs font-medium px-2 py-1 rounded ${
@@ -108,8 +196,24 @@ export function Timeline({
                   )}
                 </div>
 
+                {/* Qgroup usage */}
+                {snapshot.exclusiveBytes !== undefined && (
+                  <div className="mt-2">
+                    <div className="h-1.5 rounded bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className="h-full bg-orange-400 dark:bg-orange-500"
+                        style={{ width: `${maxExclusive ? (snapshot.exclusiveBytes / maxExclusive) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {formatSize(snapshot.exclusiveBytes)} exclusive
+                      {snapshot.referencedBytes !== undefined && ` · ${formatSize(snapshot.referencedBytes)} referenced`}
+                    </p>
+                  </div>
+                )}
+
                 {/* Browse Files Link */}
-                <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 flex flex-wrap gap-4">
                   <Link
                     to={`/browse${snapshot.path}/`}
                     onClick={(e) => e.stopPropagation()}
@@ -118,6 +222,16 @@ export function Timeline({
                     <span>📁</span>
                     <span>Browse Files</span>
                   </Link>
+                  {preSnapshot && (
+                    <Link
+                      to={`/compare/${encodeURIComponent(preSnapshot.path)}/${encodeURIComponent(snapshot.path)}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="inline-flex items-center gap-1.5 text-sm text-purple-600 dark:text-purple-400 hover:text-purple-700 dark:hover:text-purple-300 hover:underline"
+                    >
+                      <span>⇄</span>
+                      <span>Compare pre → post</span>
+                    </Link>
+                  )}
                 </div>
               </div>
 
@@ -7,10 +7,18 @@ export default [
   route("diff", "routes/diff.tsx"),
   route("browse/:snapshot/*", "routes/browse.tsx"),
   route("file-history", "routes/file-history.tsx"),
+  route("imports", "routes/imports.tsx"),
+  route("imports/:importId", "routes/import.tsx"),
   route("api/stream-changes", "routes/api.stream-changes.ts"),
   route("api/files/:snapshotPath", "routes/api.files.ts"),
   route("api/file-history", "routes/api.file-history.ts"),
   route("api/file-content", "routes/api.file-content.ts"),
   route("api/index-snapshot", "routes/api.index-snapshot.ts"),
   route("api/rebuild-index", "routes/api.rebuild-index.ts"),
+  route("api/import-stream", "routes/api.import-stream.ts"),
+  route("api/admin/comparisons", "routes/api.admin.comparisons.ts"),
+  route("api/reclaim-estimate", "routes/api.reclaim-estimate.ts"),
+  route("api/snapshots", "routes/api.snapshots.ts"),
+  route("api/restore", "routes/api.restore.ts"),
+  route("api/download", "routes/api.download.ts"),
 ] satisfies RouteConfig;
@@ -0,0 +1,37 @@
+import type { Route } from './+types/api.admin.comparisons';
+import { listRunningComparisons, cancelComparison } from '~/services/comparison-registry.server';
+import { assertSameOrigin } from '~/services/request.server';
+
+/**
+ * GET /api/admin/comparisons
+ *
+ * List comparisons with a running btrfs send process
+ */
+export async function loader() {
+  return { comparisons: listRunningComparisons() };
+}
+
+/**
+ * DELETE /api/admin/comparisons?id=1
+ *
+ * Cancel a running comparison and kill its btrfs send process. Only
+ * requests from this origin are accepted.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== 'DELETE') {
+    throw new Response('Method not allowed', { status: 405 });
+  }
+  assertSameOrigin(request);
+
+  const url = new URL(request.url);
+  const id = parseInt(url.searchParams.get('id') || '', 10);
+  if (isNaN(id)) {
+    throw new Response('Missing required parameter: id', { status: 400 });
+  }
+
+  if (!cancelComparison(id)) {
+    throw new Response('Comparison not running', { status: 404 });
+  }
+
+  return { success: true };
+}
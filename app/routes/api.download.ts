@@ -0,0 +1,104 @@
+import type { Route } from './+types/api.download';
+import {
+  ARCHIVE_CONTENT_TYPES,
+  getContentType,
+  getDownloadInfo,
+  parseRange,
+  streamDirectory,
+  streamFile,
+} from '~/services/download.server';
+import { ServiceError } from '~/services/errors.server';
+import { ARCHIVE_FORMATS, type ArchiveFormat } from '~/utils/download';
+
+// Pull chunks only as fast as the client reads them
+function toReadableStream(chunks: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * GET /api/download?snapshot=/@snapshots/...&path=/path/to/file
+ * GET /api/download?snapshot=/@snapshots/...&path=/path/to/dir&format=tar.gz
+ *
+ * Download a file, with Range support, or a directory as a .tar, .tar.gz
+ * or .zip archive built on the fly. The snapshot must be a subvolume or
+ * snapshot the backend lists.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  const snapshot = url.searchParams.get('snapshot');
+  const filePath = url.searchParams.get('path') || '/';
+  const formatParam = url.searchParams.get('format') || 'tar.gz';
+
+  if (!snapshot) {
+    throw new Response('Missing required parameter: snapshot', { status: 400 });
+  }
+  if (!ARCHIVE_FORMATS.includes(formatParam as ArchiveFormat)) {
+    throw new Response(`Unknown archive format: ${formatParam}`, { status: 400 });
+  }
+  const format = formatParam as ArchiveFormat;
+
+  try {
+    const info = await getDownloadInfo(snapshot, filePath);
+
+    if (info.isDirectory) {
+      return new Response(toReadableStream(await streamDirectory(snapshot, filePath, format)), {
+        headers: {
+          'Content-Type': ARCHIVE_CONTENT_TYPES[format],
+          'Content-Disposition': contentDisposition(`${info.name}.${format}`),
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': getContentType(info.name),
+      'Content-Disposition': contentDisposition(info.name),
+      'Accept-Ranges': 'bytes',
+      'Last-Modified': info.modifiedAt.toUTCString(),
+      // Never render snapshot files as part of the app
+      'X-Content-Type-Options': 'nosniff',
+    };
+
+    const range = parseRange(request.headers.get('Range'), info.size);
+    if (range === 'unsatisfiable') {
+      return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${info.size}` } });
+    }
+    if (range) {
+      return new Response(toReadableStream(await streamFile(snapshot, filePath, range)), {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Range': `bytes ${range.start}-${range.end}/${info.size}`,
+          'Content-Length': String(range.end - range.start + 1),
+        },
+      });
+    }
+
+    return new Response(toReadableStream(await streamFile(snapshot, filePath)), {
+      headers: { ...headers, 'Content-Length': String(info.size) },
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      throw new Response(error.message, { status: error.status });
+    }
+    throw new Response(error instanceof Error ? error.message : 'Unknown error', { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import type { Route } from './+types/api.file-content';
-import { getFileContent } from '~/services/file-listing.server';
+import { getFileContent } from '~/services/index.server';
 
 /**
  * GET /api/file-content?snapshot=/@snapshots/...&file=/path/to/file
@@ -1,5 +1,5 @@
 import type { Route } from './+types/api.files';
-import { getDirectoryContents } from '~/services/file-listing.server';
+import { getDirectoryContents } from '~/services/index.server';
 
 /**
  * GET /api/files/:snapshotPath?path=/some/dir
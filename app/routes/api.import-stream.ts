@@ -0,0 +1,78 @@
+import type { Route } from './+types/api.import-stream';
+import { importChangeStream, deleteImport } from '~/services/stream-import.server';
+
+/**
+ * Read a web ReadableStream as an async iterable of chunks
+ */
+async function* readChunks(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * POST /api/import-stream?name=backup.send[&metadata=1]
+ * Body: raw `btrfs send` stream or `btrfs receive --dump` output
+ *
+ * Import a saved stream as a virtual comparison, optionally keeping
+ * chmod/chown/utimes/xattr changes
+ *
+ * DELETE /api/import-stream?id=1
+ *
+ * Remove an imported comparison
+ */
+export async function action({ request }: Route.ActionArgs) {
+  const url = new URL(request.url);
+
+  if (request.method === 'DELETE') {
+    const id = parseInt(url.searchParams.get('id') || '', 10);
+    if (isNaN(id)) {
+      throw new Response('Missing required parameter: id', { status: 400 });
+    }
+    return { success: deleteImport(id) };
+  }
+
+  if (request.method !== 'POST') {
+    throw new Response('Method not allowed', { status: 405 });
+  }
+
+  if (!request.body) {
+    throw new Response('Missing request body', { status: 400 });
+  }
+
+  const name = url.searchParams.get('name') || 'upload';
+  const metadata = url.searchParams.get('metadata') === '1';
+
+  try {
+    const imported = await importChangeStream(name, readChunks(request.body), { metadata });
+
+    return {
+      success: true,
+      id: imported.id,
+      format: imported.format,
+      summary: imported.summary
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error importing stream:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message,
+        error: message
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
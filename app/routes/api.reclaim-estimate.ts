@@ -0,0 +1,24 @@
+import type { Route } from './+types/api.reclaim-estimate';
+import { estimateReclaim } from '~/services/reclaim.server';
+
+/**
+ * GET /api/reclaim-estimate?subvolume=/@home&snapshot=...&snapshot=...
+ *
+ * Estimate the space deleting a set of snapshots would free
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  const subvolume = url.searchParams.get('subvolume');
+  const snapshots = url.searchParams.getAll('snapshot');
+
+  if (!subvolume || snapshots.length === 0) {
+    throw new Response('Missing required parameters: subvolume and snapshot', { status: 400 });
+  }
+
+  try {
+    return await estimateReclaim(subvolume, snapshots);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Response(message, { status: 500 });
+  }
+}
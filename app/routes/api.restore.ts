@@ -0,0 +1,43 @@
+import type { Route } from './+types/api.restore';
+import { restoreFromSnapshot } from '~/services/restore.server';
+import { readJsonBody } from '~/services/request.server';
+import { ServiceError } from '~/services/errors.server';
+
+/**
+ * POST /api/restore
+ * Body: { "snapshot": "/.snapshots/@home/2026-01-29", "path": "/user/notes.txt",
+ *         "target": "/@home/restored", "conflict": "rename", "dryRun": true, "confirm": "..." }
+ *
+ * Restore a file or directory from a snapshot into its live subvolume, or
+ * into target if given. conflict is "overwrite" or "rename" (default);
+ * overwriting needs confirm to repeat the target path as typed by the user.
+ * Dry runs report what would happen without writing anything. Only
+ * same-origin JSON requests are accepted.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== 'POST') {
+    throw new Response('Method not allowed', { status: 405 });
+  }
+
+  const { snapshot, path, target, conflict = 'rename', dryRun = false, confirm } = await readJsonBody(request);
+  if (!snapshot || !path || typeof snapshot !== 'string' || typeof path !== 'string') {
+    throw new Response('Missing required parameters: snapshot and path', { status: 400 });
+  }
+  if (conflict !== 'overwrite' && conflict !== 'rename') {
+    throw new Response(`Unknown conflict policy: ${conflict}`, { status: 400 });
+  }
+
+  try {
+    return await restoreFromSnapshot(snapshot, path, {
+      targetDir: typeof target === 'string' && target ? target : undefined,
+      conflict,
+      dryRun: !!dryRun,
+      confirm: typeof confirm === 'string' ? confirm : undefined,
+    });
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      throw new Response(error.message, { status: error.status });
+    }
+    throw new Response(error instanceof Error ? error.message : 'Unknown error', { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import type { Route } from './+types/api.snapshots';
+import { createSnapshot, deleteSnapshots, isManagementEnabled } from '~/services/snapshot-management.server';
+import { readJsonBody } from '~/services/request.server';
+import { ServiceError } from '~/services/errors.server';
+
+/**
+ * POST /api/snapshots
+ * Body: { "action": "create", "subvolume": "/@home", "name": "@home.20260101T1200", "confirm": "/@home" }
+ *   or: { "action": "delete", "subvolume": "/@home", "snapshots": ["/.snapshots/..."], "confirm": "/@home" }
+ *
+ * Create or delete snapshots. Needs ALLOW_SNAPSHOT_MANAGEMENT=true, and
+ * confirm must repeat the subvolume path as typed by the user. Only
+ * same-origin JSON requests are accepted.
+ */
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method !== 'POST') {
+    throw new Response('Method not allowed', { status: 405 });
+  }
+  if (!isManagementEnabled()) {
+    throw new Response('Snapshot management is disabled', { status: 403 });
+  }
+
+  const { action, subvolume, name, snapshots, confirm } = await readJsonBody(request);
+  if (!subvolume || typeof subvolume !== 'string') {
+    throw new Response('Missing required parameter: subvolume', { status: 400 });
+  }
+  if (confirm !== subvolume) {
+    throw new Response('Confirmation does not match the subvolume path', { status: 400 });
+  }
+
+  try {
+    if (action === 'create') {
+      if (!name || typeof name !== 'string') {
+        throw new Response('Missing required parameter: name', { status: 400 });
+      }
+      return { success: true, snapshot: await createSnapshot(subvolume, name) };
+    }
+
+    if (action === 'delete') {
+      if (!Array.isArray(snapshots) || snapshots.length === 0 || snapshots.some(s => typeof s !== 'string')) {
+        throw new Response('Missing required parameter: snapshots', { status: 400 });
+      }
+      return { success: true, deleted: await deleteSnapshots(subvolume, snapshots) };
+    }
+
+    throw new Response(`Unknown action: ${action}`, { status: 400 });
+  } catch (error) {
+    if (error instanceof Response) throw error;
+    if (error instanceof ServiceError) {
+      throw new Response(error.message, { status: error.status });
+    }
+    throw new Response(error instanceof Error ? error.message : 'Unknown error', { status: 500 });
+  }
+}
@@ -1,11 +1,20 @@
 import type { Route } from "./+types/api.stream-changes";
-import { streamChanges, clearCache } from "~/services/btrfs-stream.server";
+import { clearCache, type StreamOptions } from "~/services/btrfs-stream.server";
+import { streamChanges } from "~/services/index.server";
 
 export async function loader({ request }: Route.LoaderArgs) {
   const url = new URL(request.url);
   const oldSnapshotPath = url.searchParams.get("old");
   const newSnapshotPath = url.searchParams.get("new");
   const noCache = url.searchParams.get("nocache") === "1";
+  const metadata = url.searchParams.get("metadata") === "1";
+  // engine=btrfs-send skips composing the result from the history index,
+  // engine=tree-walk skips btrfs send
+  const engineParam = url.searchParams.get("engine");
+  const engine = engineParam === "btrfs-send" || engineParam === "tree-walk" ? engineParam : undefined;
+  const hash = url.searchParams.get("hash") === "1";
+  // The newer side is a live subvolume, which only a tree walk can read
+  const live = url.searchParams.get("live") === "1";
 
   if (!oldSnapshotPath || !newSnapshotPath) {
     return new Response("Missing required parameters", { status: 400 });
@@ -13,26 +22,44 @@ export async function loader({ request }: Route.LoaderArgs) {
 
   // Clear cache if requested
   if (noCache) {
-    clearCache(oldSnapshotPath, newSnapshotPath);
+    await clearCache(oldSnapshotPath, newSnapshotPath);
   }
 
+  // Stop btrfs send when the client goes away
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort(), { once: true });
+
+  const options: StreamOptions = live
+    ? { engine: "tree-walk", hash, signal: abort.signal }
+    : { metadata, engine, hash, signal: abort.signal };
+
   // Create a readable stream that sends SSE events
   const stream = new ReadableStream({
     async start(controller) {
       const encoder = new TextEncoder();
 
       try {
-        for await (const event of streamChanges(oldSnapshotPath, newSnapshotPath)) {
+        for await (const event of streamChanges(oldSnapshotPath, newSnapshotPath, options)) {
+          if (abort.signal.aborted) break;
           const data = JSON.stringify(event);
           controller.enqueue(encoder.encode(`data: ${data}\n\n`));
         }
       } catch (error) {
-        const errorEvent = JSON.stringify({ type: "error", message: String(error) });
-        controller.enqueue(encoder.encode(`data: ${errorEvent}\n\n`));
+        if (!abort.signal.aborted) {
+          const errorEvent = JSON.stringify({ type: "error", message: String(error) });
+          controller.enqueue(encoder.encode(`data: ${errorEvent}\n\n`));
+        }
       } finally {
-        controller.close();
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
       }
     },
+    cancel() {
+      abort.abort();
+    },
   });
 
   return new Response(stream, {
@@ -1,8 +1,11 @@
+import { useState } from 'react';
 import type { Route } from './+types/browse';
 import { useLoaderData, useNavigate } from 'react-router';
-import { getDirectoryContents } from '~/services/file-listing.server';
+import { getDirectoryContents } from '~/services/index.server';
 import { FileBrowser } from '~/components/FileBrowser';
 import { Breadcrumbs } from '~/components/Breadcrumbs';
+import { RestoreDialog } from '~/components/RestoreDialog';
+import { ARCHIVE_FORMATS, buildDownloadUrl } from '~/utils/download';
 
 /**
  * Browse route: /browse/:snapshot/*
@@ -35,6 +38,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
 export default function Browse() {
   const { snapshot, directory, files } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
+  const [restorePath, setRestorePath] = useState<string | null>(null);
 
   const handleNavigate = (path: string, isDirectory: boolean) => {
     if (isDirectory) {
@@ -87,6 +91,21 @@ export default function Browse() {
         />
       </div>
 
+      {/* Download the whole directory */}
+      <div className="mb-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <span>Download this directory as</span>
+        {ARCHIVE_FORMATS.map((format) => (
+          <a
+            key={format}
+            href={buildDownloadUrl(snapshot, directory, format)}
+            download
+            className="px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            .{format}
+          </a>
+        ))}
+      </div>
+
       {/* File Browser */}
       <FileBrowser
         files={files}
@@ -94,8 +113,18 @@ export default function Browse() {
         onNavigate={handleNavigate}
         onGoUp={handleGoUp}
         onViewHistory={handleViewHistory}
+        onRestore={setRestorePath}
+        getDownloadUrl={(filePath) => buildDownloadUrl(snapshot, filePath)}
       />
 
+      {restorePath && (
+        <RestoreDialog
+          snapshotPath={snapshot}
+          path={restorePath}
+          onClose={() => setRestorePath(null)}
+        />
+      )}
+
       {/* Back Button */}
       <div className="mt-6">
         <button
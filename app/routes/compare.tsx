@@ -1,9 +1,12 @@
 import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router";
 import type { Route } from "./+types/compare";
-import { getBtrfsDisplayPath } from "~/services/index.server";
+import { getBtrfsDisplayPath, isBtrfsBackend } from "~/services/index.server";
 import { ChangesView } from "~/components/ChangesView";
-import { buildBtrfsSendCommand } from "~/utils/btrfs";
-import type { FileChange } from "~/types";
+import { buildBtrfsSendCommand, buildTreeDiffCommand, getSnapshotName } from "~/utils/btrfs";
+import { changeKey, summarizeChanges, type ChangeSummary } from "~/utils/changes";
+import { formatSize } from "~/utils/format";
+import type { ComparisonEngine, FileChange } from "~/types";
 
 // Copy icon
 function CopyIcon({ className }: { className?: string }) {
@@ -109,28 +112,36 @@ export function meta({ params }: Route.MetaArgs) {
   ];
 }
 
-export async function loader({ params }: Route.LoaderArgs) {
+export async function loader({ params, request }: Route.LoaderArgs) {
   const oldSnapshotPath = decodeURIComponent(params.oldSnapshot);
   const newSnapshotPath = decodeURIComponent(params.newSnapshot);
   const btrfsDisplayPath = getBtrfsDisplayPath();
-
-  return { oldSnapshotPath, newSnapshotPath, btrfsDisplayPath };
-}
-
-interface StreamSummary {
-  added: number;
-  modified: number;
-  deleted: number;
-  renamed: number;
+  const searchParams = new URL(request.url).searchParams;
+  // Metadata changes (chmod, chown, utimes, xattrs) are opt-in
+  const includeMetadata = searchParams.get("metadata") === "1";
+  // Pick the engine instead of the fastest available one
+  const engineParam = searchParams.get("engine");
+  const selectedEngine = engineParam === "btrfs-send" || engineParam === "tree-walk" ? engineParam : null;
+  // Tree walk only: hash files to confirm content changes
+  const hash = searchParams.get("hash") === "1";
+  // The newer side is the live source subvolume, compared by tree walk
+  const live = searchParams.get("live") === "1";
+  // Plain directory snapshots can only be compared by tree walk
+  const isBtrfs = isBtrfsBackend();
+
+  return { oldSnapshotPath, newSnapshotPath, btrfsDisplayPath, includeMetadata, selectedEngine, hash, live, isBtrfs };
 }
 
 export default function Compare({ loaderData }: Route.ComponentProps) {
-  const { oldSnapshotPath, newSnapshotPath, btrfsDisplayPath } = loaderData;
+  const { oldSnapshotPath, newSnapshotPath, btrfsDisplayPath, includeMetadata, selectedEngine, hash, live, isBtrfs } = loaderData;
+  const [, setSearchParams] = useSearchParams();
 
   const [changes, setChanges] = useState<FileChange[]>([]);
-  const [summary, setSummary] = useState<StreamSummary>({ added: 0, modified: 0, deleted: 0, renamed: 0 });
+  const [summary, setSummary] = useState<ChangeSummary>({ added: 0, modified: 0, deleted: 0, renamed: 0 });
   const [isStreaming, setIsStreaming] = useState(true);
   const [progress, setProgress] = useState<string>("");
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [engine, setEngine] = useState<ComparisonEngine | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Use refs to accumulate changes without triggering re-renders
@@ -141,6 +152,11 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
   useEffect(() => {
     const changeMap = changeMapRef.current;
     changeMap.clear();
+    setChanges([]);
+    setIsStreaming(true);
+    setQueuePosition(null);
+    setEngine(null);
+    setError(null);
 
     // Batch UI updates every 150ms
     let updateTimer: ReturnType<typeof setTimeout> | null = null;
@@ -148,12 +164,7 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
     const flushUpdates = () => {
       const allChanges = Array.from(changeMap.values());
       setChanges(allChanges);
-      setSummary({
-        added: allChanges.filter(c => c.type === "mkdir" || c.type === "link" || c.type === "symlink").length,
-        modified: allChanges.filter(c => c.type === "write" || c.type === "truncate").length,
-        deleted: allChanges.filter(c => c.type === "unlink" || c.type === "rmdir").length,
-        renamed: allChanges.filter(c => c.type === "rename").length,
-      });
+      setSummary(summarizeChanges(allChanges));
       pendingUpdateRef.current = false;
     };
 
@@ -165,16 +176,22 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
     };
 
     const eventSource = new EventSource(
-      `/api/stream-changes?old=${encodeURIComponent(oldSnapshotPath)}&new=${encodeURIComponent(newSnapshotPath)}`
+      `/api/stream-changes?old=${encodeURIComponent(oldSnapshotPath)}&new=${encodeURIComponent(newSnapshotPath)}${includeMetadata ? "&metadata=1" : ""}${selectedEngine ? `&engine=${selectedEngine}` : ""}${hash ? "&hash=1" : ""}${live ? "&live=1" : ""}`
     );
 
     eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
 
+        if (data.type === "queued") {
+          setQueuePosition(data.position ?? null);
+          return;
+        }
+        setQueuePosition(null);
+
         if (data.type === "change" && data.data) {
           const change = data.data as FileChange;
-          const key = `${change.type}:${change.path}`;
+          const key = changeKey(change);
           const existing = changeMap.get(key);
 
           if (existing && change.size) {
@@ -188,11 +205,18 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
         } else if (data.type === "progress") {
           setProgress(data.message || "");
         } else if (data.type === "done") {
-          // Final flush
+          // Replace the provisional changes with the net changes per path
           if (updateTimer) clearTimeout(updateTimer);
+          if (data.changes) {
+            changeMap.clear();
+            for (const change of data.changes as FileChange[]) {
+              changeMap.set(changeKey(change), change);
+            }
+          }
           flushUpdates();
           setIsStreaming(false);
           setProgress("");
+          setEngine(data.engine ?? null);
           if (data.summary) {
             setSummary(data.summary);
           }
@@ -217,14 +241,11 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
       if (updateTimer) clearTimeout(updateTimer);
       eventSource.close();
     };
-  }, [oldSnapshotPath, newSnapshotPath]);
+  }, [oldSnapshotPath, newSnapshotPath, includeMetadata, selectedEngine, hash, live]);
 
-  const btrfsSendCommand = buildBtrfsSendCommand(btrfsDisplayPath, oldSnapshotPath, newSnapshotPath);
-
-  const getSnapshotName = (path: string) => {
-    const parts = path.split("/");
-    return parts[parts.length - 1];
-  };
+  const command = live || !isBtrfs
+    ? { label: "diff (list differing files)", text: buildTreeDiffCommand(btrfsDisplayPath, oldSnapshotPath, newSnapshotPath) }
+    : { label: "btrfs send (list changes)", text: buildBtrfsSendCommand(btrfsDisplayPath, oldSnapshotPath, newSnapshotPath, includeMetadata) };
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -251,7 +272,7 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
             </button>
             <div className="flex-1">
               <h1 className="text-xl font-bold text-gray-900 dark:text-white">
-                Compare Snapshots
+                {live ? "Changes Since Snapshot" : "Compare Snapshots"}
               </h1>
               <div className="flex items-center gap-2">
                 <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -288,17 +309,29 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
             <div className="flex items-center gap-2 mb-2">
               <span className="w-3 h-3 rounded-full bg-green-500" />
               <span className="text-sm font-medium text-green-800 dark:text-green-200">
-                Newer
+                {live ? "Live subvolume" : "Newer"}
               </span>
             </div>
             <h3 className="font-medium text-gray-900 dark:text-white truncate">
-              {getSnapshotName(newSnapshotPath)}
+              {live ? newSnapshotPath : getSnapshotName(newSnapshotPath)}
             </h3>
           </div>
         </div>
 
+        {/* Queue position */}
+        {isStreaming && queuePosition !== null && (
+          <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+            <div className="flex items-center gap-2 text-sm text-amber-700 dark:text-amber-300">
+              <LoadingSpinner className="w-4 h-4" />
+              <span>
+                Queued — position {queuePosition}. Other comparisons are running; this one starts when a slot frees up.
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Progress indicator */}
-        {isStreaming && progress && (
+        {isStreaming && queuePosition === null && progress && (
           <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
             <div className="flex items-center gap-2 text-sm text-blue-700 dark:text-blue-300">
               <LoadingSpinner className="w-4 h-4" />
@@ -348,15 +381,132 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
           </div>
         </div>
 
+        {/* Which engine produced the result */}
+        {engine && (
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+            {engine === "history-index" ? (
+              <>
+                Composed from the file history index (no write maps or reflink details).{" "}
+                <button
+                  onClick={() =>
+                    setSearchParams((params) => {
+                      params.set("engine", isBtrfs ? "btrfs-send" : "tree-walk");
+                      return params;
+                    }, { replace: true })
+                  }
+                  className="text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+                >
+                  {isBtrfs ? "Run btrfs send instead" : "Walk the trees instead"}
+                </button>
+              </>
+            ) : engine === "tree-walk" ? (
+              <>Compared by walking both directory trees (no write maps, reflink or metadata details).</>
+            ) : (
+              <>Computed with btrfs send.</>
+            )}
+          </p>
+        )}
+
+        {/* Data written vs reflinked */}
+        {!!summary.clonedBytes && (
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+            {formatSize(summary.writtenBytes || 0)} of new data written,{" "}
+            <span className="text-cyan-700 dark:text-cyan-300">
+              {formatSize(summary.clonedBytes)} reflinked
+            </span>{" "}
+            from existing files (
+            {Math.round((summary.clonedBytes / (summary.clonedBytes + (summary.writtenBytes || 0))) * 100)}%
+            shared)
+          </p>
+        )}
+
+        {/* btrfs send can't read a live subvolume, so there is nothing to choose */}
+        {!live && isBtrfs && (
+          <>
+            {/* Metadata mode */}
+            <label className="mb-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeMetadata}
+                onChange={(e) =>
+                  setSearchParams((params) => {
+                    if (e.target.checked) params.set("metadata", "1");
+                    else params.delete("metadata");
+                    return params;
+                  }, { replace: true })
+                }
+              />
+              Include metadata changes (permissions, ownership, timestamps, xattrs)
+            </label>
+
+            {/* Engine selection */}
+            <div className="mb-4 flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                Engine
+                <select
+                  value={selectedEngine ?? ""}
+                  onChange={(e) =>
+                    setSearchParams((params) => {
+                      if (e.target.value) params.set("engine", e.target.value);
+                      else params.delete("engine");
+                      params.delete("hash");
+                      return params;
+                    }, { replace: true })
+                  }
+                  className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1"
+                >
+                  <option value="">Automatic</option>
+                  <option value="btrfs-send">btrfs send</option>
+                  <option value="tree-walk">Tree walk</option>
+                </select>
+              </label>
+              {selectedEngine === "tree-walk" && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={hash}
+                    onChange={(e) =>
+                      setSearchParams((params) => {
+                        if (e.target.checked) params.set("hash", "1");
+                        else params.delete("hash");
+                        return params;
+                      }, { replace: true })
+                    }
+                  />
+                  Hash file contents (slower, ignores touched but unchanged files)
+                </label>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Plain directories are always walked */}
+        {!isBtrfs && (
+          <label className="mb-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hash}
+              onChange={(e) =>
+                setSearchParams((params) => {
+                  if (e.target.checked) params.set("hash", "1");
+                  else params.delete("hash");
+                  return params;
+                }, { replace: true })
+              }
+            />
+            Hash file contents (slower, ignores touched but unchanged files)
+          </label>
+        )}
+
         {/* Command */}
         <details className="mb-6">
           <summary className="cursor-pointer text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
-            Show btrfs command
+            Show {live || !isBtrfs ? "diff" : "btrfs"} command
           </summary>
           <div className="mt-2">
             <CopyableCommand
-              label="btrfs send (list changes)"
-              command={btrfsSendCommand}
+              label={command.label}
+              command={command.text}
             />
           </div>
         </details>
@@ -373,6 +523,7 @@ export default function Compare({ loaderData }: Route.ComponentProps) {
             changes={changes}
             oldSnapshotPath={oldSnapshotPath}
             newSnapshotPath={newSnapshotPath}
+            live={live}
           />
         )}
       </main>
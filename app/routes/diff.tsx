@@ -3,6 +3,7 @@ import { Link } from "react-router";
 import type { Route } from "./+types/diff";
 import { getFileDiff, getBtrfsDisplayPath } from "~/services/index.server";
 import { DiffViewer } from "~/components/DiffViewer";
+import { getSnapshotName } from "~/utils/btrfs";
 
 // Copy icon
 function CopyIcon({ className }: { className?: string }) {
@@ -91,6 +92,8 @@ export async function loader({ request }: Route.LoaderArgs) {
   const oldSnapshotPath = url.searchParams.get("old");
   const newSnapshotPath = url.searchParams.get("new");
   const filePath = url.searchParams.get("file");
+  // The newer side is the live source subvolume
+  const live = url.searchParams.get("live") === "1";
   const btrfsDisplayPath = getBtrfsDisplayPath();
 
   if (!oldSnapshotPath || !newSnapshotPath || !filePath) {
@@ -98,16 +101,11 @@ export async function loader({ request }: Route.LoaderArgs) {
   }
 
   const diff = await getFileDiff(oldSnapshotPath, newSnapshotPath, filePath);
-  return { diff, oldSnapshotPath, newSnapshotPath, filePath, btrfsDisplayPath };
+  return { diff, oldSnapshotPath, newSnapshotPath, filePath, btrfsDisplayPath, live };
 }
 
 export default function Diff({ loaderData }: Route.ComponentProps) {
-  const { diff, oldSnapshotPath, newSnapshotPath, filePath, btrfsDisplayPath } = loaderData;
-
-  const getSnapshotName = (path: string) => {
-    const parts = path.split("/");
-    return parts[parts.length - 1];
-  };
+  const { diff, oldSnapshotPath, newSnapshotPath, filePath, btrfsDisplayPath, live } = loaderData;
 
   // Build the diff command for copying
   const diffCommand = `diff "${btrfsDisplayPath}${oldSnapshotPath}/${filePath}" "${btrfsDisplayPath}${newSnapshotPath}/${filePath}"`;
@@ -149,7 +147,7 @@ export default function Diff({ loaderData }: Route.ComponentProps) {
               </h1>
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 {getSnapshotName(oldSnapshotPath)} →{" "}
-                {getSnapshotName(newSnapshotPath)}
+                {live ? "live" : getSnapshotName(newSnapshotPath)}
               </p>
             </div>
           </div>
@@ -170,10 +168,10 @@ export default function Diff({ loaderData }: Route.ComponentProps) {
             </div>
             <div>
               <span className="text-gray-500 dark:text-gray-400">
-                Newer snapshot:{" "}
+                {live ? "Live subvolume" : "Newer snapshot"}:{" "}
               </span>
               <span className="font-medium text-gray-900 dark:text-white">
-                {getSnapshotName(newSnapshotPath)}
+                {live ? newSnapshotPath : getSnapshotName(newSnapshotPath)}
               </span>
             </div>
           </div>
@@ -213,7 +211,7 @@ export default function Diff({ loaderData }: Route.ComponentProps) {
         </details>
 
         {/* Diff viewer */}
-        <DiffViewer diff={diff} />
+        <DiffViewer diff={diff} live={live} />
       </main>
     </div>
   );
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router';
+import { Link, useNavigate } from 'react-router';
 import type { Route } from './+types/file-history';
 import {
   getFileHistory,
@@ -269,6 +269,21 @@ export default function FileHistory({ loaderData }: Route.ComponentProps) {
               ))}
           </div>
         )}
+
+        {streamedTimeline.hardlinks.length > 0 && (
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="font-medium">Hardlinks:</span>{' '}
+            {streamedTimeline.hardlinks.map(link => (
+              <Link
+                key={link}
+                to={`/file-history?subvolume=${encodeURIComponent(subvolume)}&file=${encodeURIComponent(link)}`}
+                className="inline-block bg-gray-100 dark:bg-gray-800 px-2 py-0.5 rounded mr-2 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                {link}
+              </Link>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Timeline */}
@@ -1,6 +1,7 @@
 import { Link } from "react-router";
 import type { Route } from "./+types/home";
 import { getSubvolumes, isDemoMode } from "~/services/index.server";
+import { LineageGraph } from "~/components/LineageGraph";
 import type { Subvolume } from "~/types";
 
 export function meta({}: Route.MetaArgs) {
@@ -52,9 +53,17 @@ export default function Home({ loaderData }: Route.ComponentProps) {
         )}
 
         <section>
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-            Select a Subvolume
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Select a Subvolume
+            </h2>
+            <Link
+              to="/imports"
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Import a send stream
+            </Link>
+          </div>
 
           {mainSubvolumes.length === 0 ? (
             <p className="text-gray-500 dark:text-gray-400">
@@ -98,6 +107,17 @@ export default function Home({ loaderData }: Route.ComponentProps) {
             </div>
           )}
         </section>
+
+        {/* How snapshots were taken or received from each other */}
+        <section className="mt-10">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+            Lineage
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Snapshots by the subvolume they were snapshotted or received from
+          </p>
+          <LineageGraph subvolumes={subvolumes} />
+        </section>
       </main>
     </div>
   );
@@ -0,0 +1,154 @@
+import { Link } from "react-router";
+import type { Route } from "./+types/import";
+import { getImport } from "~/services/stream-import.server";
+import { ChangesView } from "~/components/ChangesView";
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: data ? `Import - ${data.imported.name}` : "Import" },
+    { name: "description", content: "Changes from an imported send stream" },
+  ];
+}
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const id = parseInt(params.importId, 10);
+  const imported = isNaN(id) ? null : getImport(id);
+
+  if (!imported) {
+    throw new Response("Import not found", { status: 404 });
+  }
+
+  return { imported };
+}
+
+export default function Import({ loaderData }: Route.ComponentProps) {
+  const { imported } = loaderData;
+  const { changes, summary } = imported;
+
+  // Virtual snapshot labels for the comparison
+  const oldLabel = imported.parentUuid ? `parent ${imported.parentUuid}` : "(full stream)";
+  const newLabel = imported.snapshotName || imported.name;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/imports"
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 19l-7-7 7-7"
+                />
+              </svg>
+            </Link>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white truncate">
+                {imported.name}
+              </h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {changes.length} change{changes.length !== 1 ? "s" : ""} in imported{" "}
+                {imported.format === "send-stream" ? "send stream" : "dump"}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        {/* Snapshot info cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="w-3 h-3 rounded-full bg-blue-500" />
+              <span className="text-sm font-medium text-blue-800 dark:text-blue-200">
+                Older
+              </span>
+            </div>
+            <h3 className="font-medium text-gray-900 dark:text-white truncate" title={oldLabel}>
+              {oldLabel}
+            </h3>
+          </div>
+
+          <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg border border-green-200 dark:border-green-800">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="w-3 h-3 rounded-full bg-green-500" />
+              <span className="text-sm font-medium text-green-800 dark:text-green-200">
+                Newer
+              </span>
+            </div>
+            <h3 className="font-medium text-gray-900 dark:text-white truncate" title={newLabel}>
+              {newLabel}
+            </h3>
+          </div>
+        </div>
+
+        <div className="mb-4 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+          <p className="text-sm text-amber-800 dark:text-amber-200">
+            Virtual comparison: file contents are not available, so diffs and file history are disabled.
+          </p>
+        </div>
+
+        {/* Summary stats */}
+        <div className="grid grid-cols-4 gap-3 mb-6">
+          <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-center">
+            <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+              {summary.added}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">Added</div>
+          </div>
+          <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-center">
+            <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">
+              {summary.modified}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Modified
+            </div>
+          </div>
+          <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-center">
+            <div className="text-2xl font-bold text-red-600 dark:text-red-400">
+              {summary.deleted}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Deleted
+            </div>
+          </div>
+          <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-center">
+            <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+              {summary.renamed}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Renamed
+            </div>
+          </div>
+        </div>
+
+        {/* Changes list */}
+        {changes.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              No changes found in this stream.
+            </p>
+          </div>
+        ) : (
+          <ChangesView
+            changes={changes}
+            oldSnapshotPath={oldLabel}
+            newSnapshotPath={newLabel}
+            virtual
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router";
+import type { Route } from "./+types/imports";
+import { listImports } from "~/services/stream-import.server";
+import { formatDate } from "~/utils/format";
+
+// Loading spinner
+function LoadingSpinner({ className }: { className?: string }) {
+  return (
+    <svg
+      className={`animate-spin ${className}`}
+      xmlns="http://www.w3.org/2000/svg"
+      fill="none"
+      viewBox="0 0 24 24"
+    >
+      <circle
+        className="opacity-25"
+        cx="12"
+        cy="12"
+        r="10"
+        stroke="currentColor"
+        strokeWidth="4"
+      />
+      <path
+        className="opacity-75"
+        fill="currentColor"
+        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+      />
+    </svg>
+  );
+}
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Imported Streams" },
+    { name: "description", content: "Explore saved btrfs send streams offline" },
+  ];
+}
+
+export async function loader() {
+  const imports = listImports();
+  return { imports };
+}
+
+export default function Imports({ loaderData }: Route.ComponentProps) {
+  const { imports } = loaderData;
+  const navigate = useNavigate();
+
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [includeMetadata, setIncludeMetadata] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      // Send the raw file so large streams are parsed while uploading
+      const response = await fetch(
+        `/api/import-stream?name=${encodeURIComponent(file.name)}${includeMetadata ? "&metadata=1" : ""}`,
+        { method: "POST", body: file }
+      );
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || "Import failed");
+      }
+
+      navigate(`/imports/${result.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Link
+              to="/"
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <svg
+                className="w-6 h-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 19l-7-7 7-7"
+                />
+              </svg>
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+                Imported Streams
+              </h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {imports.length} import{imports.length !== 1 ? "s" : ""}
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        {/* Upload */}
+        <div className="mb-6 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+            Upload a file written by <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">btrfs send</code>{" "}
+            or captured from <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">btrfs receive --dump</code>{" "}
+            to explore it without the original filesystem. From a shell, use{" "}
+            <code className="bg-gray-100 dark:bg-gray-900 px-1 rounded">npm run import-stream &lt;file&gt;</code>.
+          </p>
+          <label className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors cursor-pointer">
+            {isUploading ? (
+              <>
+                <LoadingSpinner className="w-4 h-4" />
+                <span>Importing...</span>
+              </>
+            ) : (
+              <span>Choose file</span>
+            )}
+            <input
+              type="file"
+              className="hidden"
+              disabled={isUploading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+          </label>
+          <label className="ml-4 inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeMetadata}
+              disabled={isUploading}
+              onChange={(e) => setIncludeMetadata(e.target.checked)}
+            />
+            Include metadata changes (permissions, ownership, timestamps, xattrs)
+          </label>
+          {error && (
+            <p className="mt-3 text-sm text-red-700 dark:text-red-300">{error}</p>
+          )}
+        </div>
+
+        {/* Import list */}
+        {imports.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500 dark:text-gray-400">
+              No streams imported yet.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {imports.map((item) => (
+              <Link
+                key={item.id}
+                to={`/imports/${item.id}`}
+                className="block p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-blue-500 dark:hover:border-blue-400 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="font-medium text-gray-900 dark:text-white truncate">
+                      {item.name}
+                    </h3>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      {item.format === "send-stream" ? "Send stream" : "Dump"}
+                      {item.snapshotName && <> | {item.snapshotName}</>}
+                      {" | "}
+                      {formatDate(new Date(item.createdAt))}
+                    </p>
+                  </div>
+                  <div className="shrink-0 flex gap-3 text-sm font-medium">
+                    <span className="text-green-600 dark:text-green-400">+{item.summary.added}</span>
+                    <span className="text-amber-600 dark:text-amber-400">~{item.summary.modified}</span>
+                    <span className="text-red-600 dark:text-red-400">-{item.summary.deleted}</span>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
-import { useState } from "react";
-import { Link, useNavigate, useNavigation } from "react-router";
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useNavigation, useRevalidator } from "react-router";
 import type { Route } from "./+types/snapshots";
-import { getSnapshots, getBtrfsDisplayPath } from "~/services/index.server";
+import { getSnapshotsWithUsage, getBtrfsDisplayPath, isBtrfsBackend } from "~/services/index.server";
 import { getIndexStatus } from "~/services/file-history.server";
+import { isManagementEnabled, suggestSnapshotName } from "~/services/snapshot-management.server";
+import { getAuditLog } from "~/services/audit.server";
 import { Timeline } from "~/components/Timeline";
 import { IndexStatusBanner } from "~/components/IndexStatusBanner";
-import { buildBtrfsSendCommand } from "~/utils/btrfs";
+import { ReclaimPanel } from "~/components/ReclaimPanel";
+import { ConfirmDialog } from "~/components/ConfirmDialog";
+import { buildBtrfsSendCommand, buildDeleteCommands, buildTreeDiffCommand, getSnapshotName } from "~/utils/btrfs";
+import { formatSize } from "~/utils/format";
+import { applyRetention, RETENTION_PERIODS, type RetentionPolicy } from "~/utils/retention";
 
 // Loading spinner component
 function LoadingSpinner({ className }: { className?: string }) {
@@ -43,10 +49,14 @@ export function meta({ params }: Route.MetaArgs) {
 
 export async function loader({ params }: Route.LoaderArgs) {
   const subvolumePath = decodeURIComponent(params.subvolume);
-  const snapshots = await getSnapshots(subvolumePath);
+  const snapshots = await getSnapshotsWithUsage(subvolumePath);
   const btrfsDisplayPath = getBtrfsDisplayPath();
   const indexStatus = await getIndexStatus(subvolumePath);
-  return { subvolumePath, snapshots, btrfsDisplayPath, indexStatus };
+  const isBtrfs = isBtrfsBackend();
+  const canManage = isManagementEnabled();
+  const auditLog = canManage ? getAuditLog(subvolumePath) : [];
+  const suggestedName = suggestSnapshotName(subvolumePath);
+  return { subvolumePath, snapshots, btrfsDisplayPath, indexStatus, isBtrfs, canManage, auditLog, suggestedName };
 }
 
 // Copy icon
@@ -68,23 +78,76 @@ function CheckIcon({ className }: { className?: string }) {
 }
 
 export default function Snapshots({ loaderData }: Route.ComponentProps) {
-  const { subvolumePath, snapshots, btrfsDisplayPath, indexStatus } = loaderData;
+  const { subvolumePath, snapshots, btrfsDisplayPath, indexStatus, isBtrfs, canManage, auditLog, suggestedName } =
+    loaderData;
   const navigate = useNavigate();
   const navigation = useNavigation();
+  const revalidator = useRevalidator();
 
   // Show loading when navigating to compare page
   const isComparing = navigation.state === "loading" && navigation.location?.pathname.startsWith("/compare");
 
-  // Sort snapshots with most recent first
-  const sortedSnapshots = [...snapshots].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+  // Sort snapshots with most recent first, or largest first by qgroup usage
+  const [sortBy, setSortBy] = useState<"date" | "exclusive" | "referenced">("date");
+  const sortedSnapshots = [...snapshots].sort((a, b) => {
+    if (sortBy === "exclusive") return (b.exclusiveBytes ?? 0) - (a.exclusiveBytes ?? 0);
+    if (sortBy === "referenced") return (b.referencedBytes ?? 0) - (a.referencedBytes ?? 0);
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  });
+  const hasUsage = snapshots.some((s) => s.exclusiveBytes !== undefined);
+  const totalExclusive = snapshots.reduce((total, s) => total + (s.exclusiveBytes ?? 0), 0);
 
   const [selectedSnapshots, setSelectedSnapshots] = useState<
     [string | null, string | null]
   >([null, null]);
 
+  // What-if deletion: clicks mark snapshots instead of picking two to compare
+  const [whatIf, setWhatIf] = useState(false);
+  const [markedSnapshots, setMarkedSnapshots] = useState<string[]>([]);
+
+  // Drop marked snapshots once they are gone, e.g. after a partly failed delete
+  useEffect(() => {
+    setMarkedSnapshots((marked) => {
+      const remaining = marked.filter((path) => snapshots.some((s) => s.path === path));
+      return remaining.length === marked.length ? marked : remaining;
+    });
+  }, [snapshots]);
+
+  // Retention simulation: highlight what a keep-N policy would prune
+  const [showRetention, setShowRetention] = useState(false);
+  const [policy, setPolicy] = useState<RetentionPolicy>({
+    hourly: 24,
+    daily: 7,
+    weekly: 4,
+    monthly: 12,
+    yearly: 0,
+  });
+  const retention = showRetention ? applyRetention(snapshots, policy) : undefined;
+  const prunedSnapshots = retention
+    ? sortedSnapshots.filter((s) => !retention.get(s.path)?.keep).map((s) => s.path)
+    : [];
+
+  const toggleWhatIf = () => {
+    setWhatIf(!whatIf);
+    setShowRetention(false);
+    setMarkedSnapshots([]);
+    setSelectedSnapshots([null, null]);
+  };
+
+  const toggleRetention = () => {
+    setShowRetention(!showRetention);
+    setWhatIf(false);
+    setMarkedSnapshots([]);
+  };
+
   const handleSnapshotClick = (snapshotPath: string) => {
+    if (whatIf) {
+      setMarkedSnapshots((marked) =>
+        marked.includes(snapshotPath) ? marked.filter((p) => p !== snapshotPath) : [...marked, snapshotPath]
+      );
+      return;
+    }
+
     setSelectedSnapshots(([first, second]) => {
       // If clicking on already selected first, deselect it
       if (snapshotPath === first) {
@@ -119,20 +182,22 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
   };
 
   const canCompare = selectedSnapshots[0] && selectedSnapshots[1];
-  const [copied, setCopied] = useState(false);
+  const [copied, setCopied] = useState<"send" | "delete" | null>(null);
 
-  // Build the btrfs send command for copying
-  const btrfsSendCommand = canCompare
-    ? buildBtrfsSendCommand(btrfsDisplayPath, selectedSnapshots[0]!, selectedSnapshots[1]!)
-    : "";
+  // Build the btrfs send (or diff, for plain directories) command for copying
+  const btrfsSendCommand = !canCompare
+    ? ""
+    : isBtrfs
+      ? buildBtrfsSendCommand(btrfsDisplayPath, selectedSnapshots[0]!, selectedSnapshots[1]!)
+      : buildTreeDiffCommand(btrfsDisplayPath, selectedSnapshots[0]!, selectedSnapshots[1]!);
 
-  const handleCopy = async () => {
+  const handleCopy = async (which: "send" | "delete", text: string) => {
     try {
       if (navigator.clipboard && navigator.clipboard.writeText) {
-        await navigator.clipboard.writeText(btrfsSendCommand);
+        await navigator.clipboard.writeText(text);
       } else {
         const textArea = document.createElement("textarea");
-        textArea.value = btrfsSendCommand;
+        textArea.value = text;
         textArea.style.position = "fixed";
         textArea.style.left = "-9999px";
         document.body.appendChild(textArea);
@@ -140,13 +205,36 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
         document.execCommand("copy");
         document.body.removeChild(textArea);
       }
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
+      setCopied(which);
+      setTimeout(() => setCopied(null), 2000);
     } catch (err) {
       console.error("Failed to copy:", err);
     }
   };
 
+  // Snapshot management, when enabled: both actions need the subvolume
+  // path typed as confirmation
+  const [dialog, setDialog] = useState<"create" | "delete" | null>(null);
+  const [newName, setNewName] = useState(suggestedName);
+
+  const postSnapshotAction = async (body: Record<string, unknown>, confirm: string) => {
+    try {
+      const response = await fetch("/api/snapshots", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, subvolume: subvolumePath, confirm }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      setDialog(null);
+      setMarkedSnapshots([]);
+    } finally {
+      // Reload either way: a failed delete may have removed some snapshots first
+      await revalidator.revalidate();
+    }
+  };
+
   const handleCompare = () => {
     if (canCompare) {
       const [older, newer] = selectedSnapshots;
@@ -185,6 +273,7 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
               </h1>
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 {snapshots.length} snapshot{snapshots.length !== 1 ? "s" : ""}
+                {hasUsage && <> · {formatSize(totalExclusive)} exclusive in total</>}
               </p>
             </div>
           </div>
@@ -208,7 +297,21 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
             {selectedSnapshots[0] && !selectedSnapshots[1] && (
               <>
                 <span className="inline-block w-3 h-3 rounded-full bg-blue-500 mr-2" />
-                Older snapshot selected. Now select a newer snapshot to compare.
+                Older snapshot selected. Now select a newer snapshot to compare
+                {isBtrfs ? (
+                  <>
+                    , or{" "}
+                    <Link
+                      to={`/compare/${encodeURIComponent(selectedSnapshots[0])}/${encodeURIComponent(subvolumePath)}?live=1`}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      see what changed since
+                    </Link>{" "}
+                    in the live subvolume.
+                  </>
+                ) : (
+                  "."
+                )}
               </>
             )}
             {selectedSnapshots[0] && selectedSnapshots[1] && (
@@ -228,11 +331,133 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
             </p>
           </div>
         ) : (
-          <Timeline
-            snapshots={sortedSnapshots}
-            selectedSnapshots={selectedSnapshots}
-            onSnapshotClick={handleSnapshotClick}
-          />
+          <>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-300">
+              <button
+                onClick={toggleWhatIf}
+                className={`px-3 py-1 rounded border transition-colors cursor-pointer ${
+                  whatIf
+                    ? "bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700 text-red-700 dark:text-red-300"
+                    : "border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                }`}
+              >
+                {whatIf ? "Done estimating" : "What if I delete…"}
+              </button>
+              <button
+                onClick={toggleRetention}
+                className={`px-3 py-1 rounded border transition-colors cursor-pointer ${
+                  showRetention
+                    ? "bg-emerald-50 dark:bg-emerald-900/20 border-emerald-300 dark:border-emerald-700 text-emerald-700 dark:text-emerald-300"
+                    : "border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                }`}
+              >
+                {showRetention ? "Hide retention policy" : "Retention policy"}
+              </button>
+              {canManage && (
+                <button
+                  onClick={() => {
+                    setNewName(suggestedName);
+                    setDialog("create");
+                  }}
+                  className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors cursor-pointer"
+                >
+                  Create snapshot
+                </button>
+              )}
+              <div className="flex-1" />
+              {hasUsage && (
+                <label className="flex items-center gap-2">
+                  Sort by
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                    className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1"
+                  >
+                    <option value="date">Date</option>
+                    <option value="exclusive">Exclusive size</option>
+                    <option value="referenced">Referenced size</option>
+                  </select>
+                </label>
+              )}
+            </div>
+            {showRetention && (
+              <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <div className="flex flex-wrap items-end gap-3">
+                  {RETENTION_PERIODS.map((period) => (
+                    <label key={period} className="text-sm text-gray-600 dark:text-gray-300">
+                      <span className="block mb-1 capitalize">{period}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={policy[period]}
+                        onChange={(e) =>
+                          setPolicy({ ...policy, [period]: Math.max(0, Number(e.target.value) || 0) })
+                        }
+                        className="w-20 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    Keeps {snapshots.length - prunedSnapshots.length}, prunes{" "}
+                    <strong className="text-gray-900 dark:text-white">{prunedSnapshots.length}</strong> of{" "}
+                    {snapshots.length} snapshots. The newest snapshot of each of the last N hours, days, weeks,
+                    months and years is kept.
+                  </p>
+                  <button
+                    onClick={() => handleCopy("delete", buildDeleteCommands(btrfsDisplayPath, prunedSnapshots, isBtrfs))}
+                    disabled={prunedSnapshots.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={isBtrfs ? "Copy btrfs subvolume delete commands" : "Copy rm commands"}
+                  >
+                    {copied === "delete" ? (
+                      <>
+                        <CheckIcon className="w-4 h-4 text-green-500" />
+                        <span className="text-green-500">Copied!</span>
+                      </>
+                    ) : (
+                      <>
+                        <CopyIcon className="w-4 h-4" />
+                        <span>Copy delete cmds</span>
+                      </>
+                    )}
+                  </button>
+                </div>
+              </div>
+            )}
+            <Timeline
+              snapshots={sortedSnapshots}
+              selectedSnapshots={selectedSnapshots}
+              onSnapshotClick={handleSnapshotClick}
+              markedSnapshots={markedSnapshots}
+              retention={retention}
+            />
+          </>
+        )}
+
+        {auditLog.length > 0 && (
+          <details className="mt-6 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+            <summary className="cursor-pointer text-sm font-medium text-gray-900 dark:text-white">
+              Recent actions
+            </summary>
+            <ul className="mt-3 space-y-1 text-sm">
+              {auditLog.map((entry) => (
+                <li key={entry.id} className="flex flex-wrap gap-2">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </span>
+                  <span className="font-medium text-gray-900 dark:text-white">{entry.action}</span>
+                  <span className="text-gray-600 dark:text-gray-300 break-all">{entry.target}</span>
+                  {entry.status === "error" ? (
+                    <span className="text-red-600 dark:text-red-400">failed: {entry.message}</span>
+                  ) : (
+                    entry.message && <span className="text-gray-500 dark:text-gray-400 break-all">{entry.message}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </details>
         )}
       </main>
 
@@ -243,20 +468,39 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
             <div className="text-sm text-gray-600 dark:text-gray-300 min-w-0">
               <p>
                 <strong>Older:</strong>{" "}
-                {selectedSnapshots[0]?.split("/").pop()}
+                {selectedSnapshots[0] && getSnapshotName(selectedSnapshots[0])}
               </p>
               <p>
                 <strong>Newer:</strong>{" "}
-                {selectedSnapshots[1]?.split("/").pop()}
+                {selectedSnapshots[1] && getSnapshotName(selectedSnapshots[1])}
               </p>
             </div>
             <div className="flex items-center gap-2 shrink-0">
+              {retention && prunedSnapshots.length > 0 && (
+                <button
+                  onClick={() => handleCopy("delete", buildDeleteCommands(btrfsDisplayPath, prunedSnapshots, isBtrfs))}
+                  className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors cursor-pointer"
+                  title={`Copy commands deleting the ${prunedSnapshots.length} pruned snapshots`}
+                >
+                  {copied === "delete" ? (
+                    <>
+                      <CheckIcon className="w-4 h-4 text-green-500" />
+                      <span className="text-green-500">Copied!</span>
+                    </>
+                  ) : (
+                    <>
+                      <CopyIcon className="w-4 h-4" />
+                      <span>Copy delete cmds</span>
+                    </>
+                  )}
+                </button>
+              )}
               <button
-                onClick={handleCopy}
+                onClick={() => handleCopy("send", btrfsSendCommand)}
                 className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-lg transition-colors cursor-pointer"
-                title="Copy btrfs command"
+                title={isBtrfs ? "Copy btrfs command" : "Copy diff command"}
               >
-                {copied ? (
+                {copied === "send" ? (
                   <>
                     <CheckIcon className="w-4 h-4 text-green-500" />
                     <span className="text-green-500">Copied!</span>
@@ -279,8 +523,57 @@ export default function Snapshots({ loaderData }: Route.ComponentProps) {
         </div>
       )}
 
+      {/* Space reclaim estimate - fixed at bottom */}
+      {whatIf && (
+        <ReclaimPanel
+          subvolumePath={subvolumePath}
+          markedSnapshots={markedSnapshots}
+          onClear={() => setMarkedSnapshots([])}
+          onDelete={canManage ? () => setDialog("delete") : undefined}
+        />
+      )}
+
       {/* Spacer for fixed bottom bar */}
-      {canCompare && <div className="h-24" />}
+      {(canCompare || whatIf) && <div className="h-24" />}
+
+      {dialog === "create" && (
+        <ConfirmDialog
+          title="Create snapshot"
+          confirmText={subvolumePath}
+          actionLabel="Create"
+          onConfirm={(confirm) => postSnapshotAction({ action: "create", name: newName }, confirm)}
+          onCancel={() => setDialog(null)}
+        >
+          <p>A read-only snapshot of {subvolumePath} is taken next to its newest snapshot and indexed.</p>
+          <label className="block">
+            Name
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="mt-1 w-full rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-2 py-1 font-mono"
+            />
+          </label>
+        </ConfirmDialog>
+      )}
+
+      {dialog === "delete" && (
+        <ConfirmDialog
+          title={`Delete ${markedSnapshots.length} snapshot${markedSnapshots.length !== 1 ? "s" : ""}`}
+          confirmText={subvolumePath}
+          actionLabel="Delete"
+          danger
+          onConfirm={(confirm) => postSnapshotAction({ action: "delete", snapshots: markedSnapshots }, confirm)}
+          onCancel={() => setDialog(null)}
+        >
+          <p>These snapshots will be deleted. This can't be undone.</p>
+          <ul className="max-h-40 overflow-y-auto font-mono text-xs">
+            {markedSnapshots.map((path) => (
+              <li key={path} className="break-all">{path}</li>
+            ))}
+          </ul>
+        </ConfirmDialog>
+      )}
 
       {/* Loading overlay */}
       {isComparing && (
@@ -0,0 +1,309 @@
+#!/usr/bin/env tsx
+
+/**
+ * Writes the send stream fixtures in this directory
+ *
+ * Usage:
+ *   npx tsx app/services/__fixtures__/send-stream/generate.ts
+ *
+ * Each stream is encoded in the kernel's format (fs/btrfs/send.h), with
+ * commands in the order btrfs send emits them for the scenario described
+ * above it. Streams recorded from a real filesystem can sit next to them:
+ *   btrfs send -p <old> <new> > name.send
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Command and attribute numbers from send.h
+const CMD = {
+  snapshot: 2,
+  mkfile: 3,
+  mkdir: 4,
+  symlink: 8,
+  rename: 9,
+  link: 10,
+  unlink: 11,
+  rmdir: 12,
+  set_xattr: 13,
+  write: 15,
+  clone: 16,
+  truncate: 17,
+  chmod: 18,
+  chown: 19,
+  utimes: 20,
+  end: 21,
+  update_extent: 22,
+  fallocate: 23,
+  fileattr: 24,
+  encoded_write: 25,
+  enable_verity: 26,
+} as const;
+
+const A = {
+  uuid: 1,
+  ctransid: 2,
+  ino: 3,
+  size: 4,
+  mode: 5,
+  uid: 6,
+  gid: 7,
+  ctime: 9,
+  mtime: 10,
+  atime: 11,
+  xattrName: 13,
+  xattrData: 14,
+  path: 15,
+  pathTo: 16,
+  pathLink: 17,
+  fileOffset: 18,
+  data: 19,
+  cloneUuid: 20,
+  cloneCtransid: 21,
+  clonePath: 22,
+  cloneOffset: 23,
+  cloneLen: 24,
+  fallocateMode: 25,
+  fileattr: 26,
+  unencodedFileLen: 27,
+  unencodedLen: 28,
+  unencodedOffset: 29,
+  compression: 30,
+  encryption: 31,
+  verityAlgorithm: 32,
+  verityBlockSize: 33,
+} as const;
+
+type Attr = [number, Buffer];
+
+// crc32c as btrfs computes it: seed 0, no final inversion
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32c(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return crc >>> 0;
+}
+
+const u64 = (value: number) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+};
+const u32 = (value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+const u8 = (value: number) => Buffer.from([value]);
+const str = (value: string) => Buffer.from(value, "utf-8");
+const uuid = (value: string) => Buffer.from(value.replace(/-/g, ""), "hex");
+const timespec = (iso: string) => {
+  const ms = Date.parse(iso);
+  return Buffer.concat([u64(Math.floor(ms / 1000)), u32((ms % 1000) * 1e6)]);
+};
+
+/**
+ * One send stream, written command by command
+ */
+class StreamWriter {
+  private chunks: Buffer[];
+
+  constructor(private version: number) {
+    this.chunks = [Buffer.from("btrfs-stream\0", "latin1"), u32(version)];
+  }
+
+  // data is the last attribute; since v2 it has no length and runs to the end
+  command(type: keyof typeof CMD, attrs: Attr[], data?: Buffer): this {
+    const parts: Buffer[] = [];
+    for (const [attr, value] of attrs) {
+      const header = Buffer.alloc(4);
+      header.writeUInt16LE(attr, 0);
+      header.writeUInt16LE(value.length, 2);
+      parts.push(header, value);
+    }
+    if (data) {
+      const header = Buffer.alloc(this.version >= 2 ? 2 : 4);
+      header.writeUInt16LE(A.data, 0);
+      if (this.version < 2) header.writeUInt16LE(data.length, 2);
+      parts.push(header, data);
+    }
+
+    const payload = Buffer.concat(parts);
+    const header = Buffer.alloc(10);
+    header.writeUInt32LE(payload.length, 0);
+    header.writeUInt16LE(CMD[type], 4);
+    header.writeUInt32LE(crc32c(Buffer.concat([header, payload])), 6);
+    this.chunks.push(header, payload);
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+const OLD_UUID = "5a1e0b2c-3d4e-4f60-8172-93a4b5c6d7e8";
+const NEW_UUID = "9f8e7d6c-5b4a-4938-8271-605f4e3d2c1b";
+const MTIME = "2026-01-29T00:00:01.500Z";
+
+function snapshotCommand(stream: StreamWriter, name: string) {
+  stream.command("snapshot", [
+    [A.path, str(name)],
+    [A.uuid, uuid(NEW_UUID)],
+    [A.ctransid, u64(120)],
+    [A.cloneUuid, uuid(OLD_UUID)],
+    [A.cloneCtransid, u64(100)],
+  ]);
+}
+
+function times(stream: StreamWriter, filePath: string) {
+  stream.command("utimes", [
+    [A.path, str(filePath)],
+    [A.atime, timespec(MTIME)],
+    [A.mtime, timespec(MTIME)],
+    [A.ctime, timespec(MTIME)],
+  ]);
+}
+
+/**
+ * v1, incremental from a snapshot holding:
+ *   docs/a.txt, docs/b.txt, docs/old.txt, docs/c (file), docs/empty/,
+ *   docs/gone/x.txt
+ * to one where:
+ *   docs/new.txt is new (created as orphan o260-7-0, then renamed)
+ *   docs/link.txt is a new hardlink to docs/new.txt
+ *   docs/old.txt was renamed to docs/moved.txt
+ *   docs/a.txt was rewritten at 4096 and truncated
+ *   docs/copy.txt was cloned from docs/a.txt, then renamed into place
+ *   docs/b.txt and docs/empty/ were deleted
+ *   docs/gone/ was deleted through an orphan name, after its file
+ *   docs/c was replaced by a directory
+ *   docs/a.txt got a chmod and a user xattr
+ */
+function incrementalV1(): Buffer {
+  const stream = new StreamWriter(1);
+  snapshotCommand(stream, "snap-2");
+
+  stream.command("mkfile", [[A.path, str("o260-7-0")], [A.ino, u64(260)]]);
+  stream.command("rename", [[A.path, str("o260-7-0")], [A.pathTo, str("docs/new.txt")]]);
+  stream.command("link", [[A.path, str("docs/link.txt")], [A.pathLink, str("docs/new.txt")]]);
+  stream.command("write", [[A.path, str("docs/new.txt")], [A.fileOffset, u64(0)]], str("hello\n"));
+  stream.command("chown", [[A.path, str("docs/new.txt")], [A.uid, u64(1000)], [A.gid, u64(1000)]]);
+  stream.command("chmod", [[A.path, str("docs/new.txt")], [A.mode, u64(0o644)]]);
+  times(stream, "docs/new.txt");
+
+  stream.command("rename", [[A.path, str("docs/old.txt")], [A.pathTo, str("docs/moved.txt")]]);
+
+  stream.command("write", [[A.path, str("docs/a.txt")], [A.fileOffset, u64(4096)]], str("0123456789"));
+  stream.command("truncate", [[A.path, str("docs/a.txt")], [A.size, u64(4106)]]);
+  stream.command("chmod", [[A.path, str("docs/a.txt")], [A.mode, u64(0o600)]]);
+  stream.command("set_xattr", [
+    [A.path, str("docs/a.txt")],
+    [A.xattrName, str("user.origin")],
+    [A.xattrData, str("backup")],
+  ]);
+  times(stream, "docs/a.txt");
+
+  stream.command("mkfile", [[A.path, str("o263-9-0")], [A.ino, u64(263)]]);
+  stream.command("clone", [
+    [A.path, str("o263-9-0")],
+    [A.fileOffset, u64(0)],
+    [A.cloneLen, u64(4096)],
+    [A.cloneUuid, uuid(NEW_UUID)],
+    [A.cloneCtransid, u64(120)],
+    [A.clonePath, str("docs/a.txt")],
+    [A.cloneOffset, u64(0)],
+  ]);
+  stream.command("rename", [[A.path, str("o263-9-0")], [A.pathTo, str("docs/copy.txt")]]);
+
+  stream.command("unlink", [[A.path, str("docs/b.txt")]]);
+  stream.command("rmdir", [[A.path, str("docs/empty")]]);
+
+  stream.command("rename", [[A.path, str("docs/gone")], [A.pathTo, str("o259-5-0")]]);
+  stream.command("unlink", [[A.path, str("o259-5-0/x.txt")]]);
+  stream.command("rmdir", [[A.path, str("o259-5-0")]]);
+
+  stream.command("mkdir", [[A.path, str("o262-8-0")], [A.ino, u64(262)]]);
+  stream.command("unlink", [[A.path, str("docs/c")]]);
+  stream.command("rename", [[A.path, str("o262-8-0")], [A.pathTo, str("docs/c")]]);
+  times(stream, "docs");
+
+  return stream.command("end", []).toBuffer();
+}
+
+/**
+ * v2 (btrfs send --proto 2 --compressed-data), incremental:
+ *   docs/big.bin gets a compressed write of 128 KiB at 0 (encoded_write)
+ *   docs/big.bin is preallocated out to 1 MiB (fallocate)
+ *   docs/small.txt is rewritten; its data attribute has no length
+ *   docs/sparse.img only has its extent refreshed (update_extent)
+ *   docs gets a fileattr
+ */
+function incrementalV2(): Buffer {
+  const stream = new StreamWriter(2);
+  snapshotCommand(stream, "snap-v2");
+
+  stream.command(
+    "encoded_write",
+    [
+      [A.path, str("docs/big.bin")],
+      [A.fileOffset, u64(0)],
+      [A.unencodedFileLen, u64(131072)],
+      [A.unencodedLen, u64(131072)],
+      [A.unencodedOffset, u64(0)],
+      [A.compression, u32(1)], // zlib
+      [A.encryption, u32(0)],
+    ],
+    Buffer.alloc(4096, 0x78)
+  );
+  stream.command("fallocate", [
+    [A.path, str("docs/big.bin")],
+    [A.fallocateMode, u32(1)], // keep size
+    [A.fileOffset, u64(131072)],
+    [A.size, u64(917504)],
+  ]);
+  stream.command("write", [[A.path, str("docs/small.txt")], [A.fileOffset, u64(2)]], str("v2 data"));
+  stream.command("update_extent", [
+    [A.path, str("docs/sparse.img")],
+    [A.fileOffset, u64(0)],
+    [A.size, u64(65536)],
+  ]);
+  stream.command("fileattr", [[A.path, str("docs")], [A.fileattr, u64(0x10)]]);
+
+  return stream.command("end", []).toBuffer();
+}
+
+/**
+ * v3, incremental: docs/signed.bin is rewritten and gets fs-verity
+ * enabled (enable_verity), which has no file change of its own
+ */
+function incrementalV3(): Buffer {
+  const stream = new StreamWriter(3);
+  snapshotCommand(stream, "snap-v3");
+
+  stream.command("write", [[A.path, str("docs/signed.bin")], [A.fileOffset, u64(0)]], str("signed"));
+  stream.command("enable_verity", [
+    [A.path, str("docs/signed.bin")],
+    [A.verityAlgorithm, u8(1)], // sha256
+    [A.verityBlockSize, u32(4096)],
+  ]);
+
+  return stream.command("end", []).toBuffer();
+}
+
+const dir = path.dirname(fileURLToPath(import.meta.url));
+const fixtures: Record<string, Buffer> = {
+  "incremental-v1.send": incrementalV1(),
+  "incremental-v2.send": incrementalV2(),
+  "incremental-v3.send": incrementalV3(),
+};
+for (const [name, data] of Object.entries(fixtures)) {
+  fs.writeFileSync(path.join(dir, name), data);
+  console.log(`${name}: ${data.length} bytes`);
+}
@@ -0,0 +1,290 @@
+import { Readable, pipeline } from "stream";
+import { crc32, createDeflateRaw, createGzip } from "zlib";
+
+/**
+ * A file, directory or symlink to put in an archive
+ * Entries are written as they come, so archives stream without
+ * knowing the whole tree up front
+ */
+export interface ArchiveEntry {
+  path: string; // Relative, "/"-separated, no trailing slash
+  type: "file" | "directory" | "symlink";
+  mode: number; // Permission bits
+  mtime: Date;
+  size: number; // Bytes of data, for files
+  linkTarget?: string;
+  open?: () => AsyncIterable<Uint8Array>; // File data
+}
+
+// Run chunks through a zlib transform, passing errors on to the consumer
+function transform(chunks: AsyncIterable<Uint8Array>, stream: NodeJS.ReadWriteStream): AsyncIterable<Buffer> {
+  return pipeline(Readable.from(chunks), stream, () => {}) as unknown as AsyncIterable<Buffer>;
+}
+
+// --- tar (ustar, with pax headers for long names and large files) ---
+
+const BLOCK_SIZE = 512;
+const MAX_OCTAL_SIZE = 8 ** 11 - 1;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf8");
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  header.write(`${Math.floor(value).toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function tarHeader(name: string, typeflag: string, mode: number, size: number, mtime: Date, linkname = ""): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  writeString(header, name, 0, 100);
+  writeOctal(header, mode & 0o7777, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.max(0, mtime.getTime() / 1000), 136, 12);
+  header.write(typeflag, 156, 1, "ascii");
+  writeString(header, linkname, 157, 100);
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+
+  // Checksum is computed with its own field as spaces
+  header.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+  return header;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
+
+// "<length> <key>=<value>\n", where length counts the whole record
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (String(length).length + Buffer.byteLength(body) !== length) {
+    length = String(length).length + Buffer.byteLength(body);
+  }
+  return `${length}${body}`;
+}
+
+export async function* tarArchive(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Uint8Array> {
+  for await (const entry of entries) {
+    const name = entry.type === "directory" ? `${entry.path}/` : entry.path;
+    const linkname = entry.linkTarget ?? "";
+    const size = entry.type === "file" ? entry.size : 0;
+
+    const pax: string[] = [];
+    if (Buffer.byteLength(name) > 100) pax.push(paxRecord("path", name));
+    if (Buffer.byteLength(linkname) > 100) pax.push(paxRecord("linkpath", linkname));
+    if (size > MAX_OCTAL_SIZE) pax.push(paxRecord("size", String(size)));
+    if (pax.length > 0) {
+      const data = Buffer.from(pax.join(""));
+      yield tarHeader(`PaxHeader/${name.slice(-80)}`, "x", 0o644, data.length, entry.mtime);
+      yield data;
+      yield padding(data.length);
+    }
+
+    const typeflag = entry.type === "directory" ? "5" : entry.type === "symlink" ? "2" : "0";
+    yield tarHeader(name, typeflag, entry.mode, Math.min(size, MAX_OCTAL_SIZE), entry.mtime, linkname);
+
+    if (entry.type === "file") {
+      let written = 0;
+      for await (const chunk of entry.open?.() ?? []) {
+        // A file that grew since it was listed is cut to its listed size
+        const part = chunk.subarray(0, size - written);
+        written += part.length;
+        if (part.length > 0) yield part;
+      }
+      if (written < size) yield Buffer.alloc(size - written);
+      yield padding(size);
+    }
+  }
+
+  // End of archive
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+export function tarGzArchive(entries: AsyncIterable<ArchiveEntry>): AsyncIterable<Uint8Array> {
+  return transform(tarArchive(entries), createGzip());
+}
+
+// --- zip (deflate, data descriptors, zip64 when sizes or offsets need it) ---
+
+const ZIP64_LIMIT = 0xffffffff;
+// Deflate can grow incompressible data slightly, so switch to zip64 early
+const ZIP64_FILE_SIZE = 0xffff0000;
+
+interface CentralEntry {
+  name: Buffer;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  externalAttributes: number;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function zip64Extra(values: number[]): Buffer {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => extra.writeBigUInt64LE(BigInt(value), 4 + i * 8));
+  return extra;
+}
+
+export async function* zipArchive(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Uint8Array> {
+  const central: CentralEntry[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.type === "directory" ? `${entry.path}/` : entry.path);
+    const { time, date } = dosDateTime(entry.mtime);
+    const typeBits = entry.type === "directory" ? 0o040000 : entry.type === "symlink" ? 0o120000 : 0o100000;
+    const isFile = entry.type === "file";
+    const zip64 = isFile && entry.size >= ZIP64_FILE_SIZE;
+    // Files are deflated as they stream, so their crc and sizes follow
+    // the data; symlinks store their target as data
+    const inline = entry.type === "symlink" ? Buffer.from(entry.linkTarget ?? "") : Buffer.alloc(0);
+    const flags = 0x0800 | (isFile ? 0x0008 : 0);
+    const method = isFile ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(zip64 ? 45 : 20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(isFile ? 0 : crc32(inline), 14);
+    local.writeUInt32LE(zip64 ? ZIP64_LIMIT : isFile ? 0 : inline.length, 18);
+    local.writeUInt32LE(zip64 ? ZIP64_LIMIT : isFile ? 0 : inline.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const extra = zip64 ? zip64Extra([0, 0]) : Buffer.alloc(0);
+    local.writeUInt16LE(extra.length, 28);
+
+    const record: CentralEntry = {
+      name,
+      flags,
+      method,
+      time,
+      date,
+      crc: isFile ? 0 : crc32(inline),
+      compressedSize: inline.length,
+      size: inline.length,
+      offset,
+      externalAttributes: (((typeBits | (entry.mode & 0o7777)) << 16) >>> 0),
+    };
+
+    yield local;
+    yield name;
+    yield extra;
+    yield inline;
+    offset += local.length + name.length + extra.length + inline.length;
+
+    if (isFile) {
+      let crc = 0;
+      let size = 0;
+      let compressedSize = 0;
+      const data = entry.open?.() ?? [];
+      async function* tap() {
+        for await (const chunk of data) {
+          crc = crc32(chunk, crc);
+          size += chunk.length;
+          yield chunk;
+        }
+      }
+      for await (const chunk of transform(tap(), createDeflateRaw())) {
+        compressedSize += chunk.length;
+        yield chunk;
+      }
+
+      const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      if (zip64) {
+        descriptor.writeBigUInt64LE(BigInt(compressedSize), 8);
+        descriptor.writeBigUInt64LE(BigInt(size), 16);
+      } else {
+        descriptor.writeUInt32LE(compressedSize, 8);
+        descriptor.writeUInt32LE(size, 12);
+      }
+      yield descriptor;
+      offset += compressedSize + descriptor.length;
+      Object.assign(record, { crc, size, compressedSize });
+    }
+
+    central.push(record);
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const record of central) {
+    const needsZip64 =
+      record.size >= ZIP64_LIMIT || record.compressedSize >= ZIP64_LIMIT || record.offset >= ZIP64_LIMIT;
+    const extra = needsZip64 ? zip64Extra([record.size, record.compressedSize, record.offset]) : Buffer.alloc(0);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE((3 << 8) | 45, 4); // Made by unix, so modes are kept
+    header.writeUInt16LE(needsZip64 ? 45 : 20, 6);
+    header.writeUInt16LE(record.flags, 8);
+    header.writeUInt16LE(record.method, 10);
+    header.writeUInt16LE(record.time, 12);
+    header.writeUInt16LE(record.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(needsZip64 ? ZIP64_LIMIT : record.compressedSize, 20);
+    header.writeUInt32LE(needsZip64 ? ZIP64_LIMIT : record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(record.externalAttributes, 38);
+    header.writeUInt32LE(needsZip64 ? ZIP64_LIMIT : record.offset, 42);
+
+    yield header;
+    yield record.name;
+    yield extra;
+    offset += header.length + record.name.length + extra.length;
+  }
+  const centralSize = offset - centralOffset;
+
+  const needsZip64 = central.length >= 0xffff || centralOffset >= ZIP64_LIMIT || centralSize >= ZIP64_LIMIT;
+  if (needsZip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE((3 << 8) | 45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(central.length), 24);
+    record.writeBigUInt64LE(BigInt(central.length), 32);
+    record.writeBigUInt64LE(BigInt(centralSize), 40);
+    record.writeBigUInt64LE(BigInt(centralOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset), 8);
+    locator.writeUInt32LE(1, 16);
+
+    yield record;
+    yield locator;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(central.length, 0xffff), 8);
+  end.writeUInt16LE(Math.min(central.length, 0xffff), 10);
+  end.writeUInt32LE(Math.min(centralSize, ZIP64_LIMIT), 12);
+  end.writeUInt32LE(Math.min(centralOffset, ZIP64_LIMIT), 16);
+  yield end;
+}
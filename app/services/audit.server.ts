@@ -0,0 +1,53 @@
+import { getDB } from './db.server';
+import type { AuditEntry } from '~/types';
+
+interface AuditRow {
+  id: number;
+  action: AuditEntry['action'];
+  subvolume_path: string;
+  target: string;
+  status: AuditEntry['status'];
+  message: string | null;
+  created_at: string;
+}
+
+/**
+ * Record a management action, successful or not
+ * On success, message can describe the action, e.g. where a restore came from
+ */
+export function recordAudit(
+  action: AuditEntry['action'],
+  subvolumePath: string,
+  target: string,
+  outcome: { error?: unknown; message?: string } = {}
+): void {
+  const { error } = outcome;
+  const message = error === undefined
+    ? outcome.message ?? null
+    : error instanceof Error ? error.message : String(error);
+  getDB().prepare(`
+    INSERT INTO audit_log (action, subvolume_path, target, status, message)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(action, subvolumePath, target, error === undefined ? 'success' : 'error', message);
+}
+
+/**
+ * Most recent actions on a subvolume, newest first
+ */
+export function getAuditLog(subvolumePath: string, limit: number = 20): AuditEntry[] {
+  const rows = getDB().prepare(`
+    SELECT * FROM audit_log WHERE subvolume_path = ?
+    ORDER BY id DESC
+    LIMIT ?
+  `).all(subvolumePath, limit) as AuditRow[];
+
+  return rows.map(row => ({
+    id: row.id,
+    action: row.action,
+    subvolumePath: row.subvolume_path,
+    target: row.target,
+    status: row.status,
+    message: row.message,
+    createdAt: new Date(row.created_at.replace(' ', 'T') + 'Z'),
+  }));
+}
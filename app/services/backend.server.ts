@@ -0,0 +1,32 @@
+import type {
+  Subvolume,
+  Snapshot,
+  SnapshotComparison,
+  FileDiff,
+  DirectoryEntry,
+  FileContent,
+} from "~/types";
+import type { StreamEvent, StreamOptions } from "./btrfs-stream.server";
+
+export type BackendName = "btrfs" | "mock" | "directory";
+
+/**
+ * A source of snapshots
+ * Paths are relative to BTRFS_ROOT, like the btrfs subvolume paths
+ */
+export interface SnapshotBackend {
+  name: BackendName;
+  // Snapshots are btrfs subvolumes, so btrfs send, metadata changes
+  // and live comparisons are available
+  isBtrfs: boolean;
+  getSubvolumes(): Promise<Subvolume[]>;
+  getSnapshots(subvolumePath: string): Promise<Snapshot[]>;
+  getChanges(oldSnapshotPath: string, newSnapshotPath: string): Promise<SnapshotComparison>;
+  streamChanges(oldSnapshotPath: string, newSnapshotPath: string, options?: StreamOptions): AsyncGenerator<StreamEvent>;
+  getFileDiff(oldSnapshotPath: string, newSnapshotPath: string, filePath: string): Promise<FileDiff>;
+  getDirectoryContents(snapshotPath: string, dirPath?: string, includeSize?: boolean): Promise<DirectoryEntry[]>;
+  getFileContent(snapshotPath: string, filePath: string): Promise<FileContent>;
+  // Management actions, for backends that can take and remove snapshots
+  createSnapshot?(sourcePath: string, snapshotPath: string): Promise<void>;
+  deleteSnapshot?(snapshotPath: string): Promise<void>;
+}
@@ -1,386 +1,327 @@
-import { spawn } from "child_process";
-import { createInterface } from "readline";
-import type { FileChange, ChangeType } from "~/types";
+import { lstat } from "fs/promises";
+import { join } from "path";
+import type { ComparisonEngine, FileChange } from "~/types";
+import {
+  decodeSendStream,
+  createChangeBuilder,
+  isOrphanPath,
+  spawnBtrfsSend,
+  type ChangeBuilderOptions,
+  type SendCommand,
+} from "./send-stream.server";
+import { resolveOldMetadata } from "./metadata.server";
+import { registerComparison, unregisterComparison } from "./comparison-registry.server";
+import { runQueued } from "./comparison-queue.server";
+import { deleteCachedComparison, getCachedComparison, setCachedComparison } from "./comparison-cache.server";
+import { getChangesFromIndex } from "./history-compare.server";
+import { diffTrees } from "./tree-diff.server";
+import { getSubvolumes } from "./index.server";
+import { summarizeChanges, type ChangeSummary } from "~/utils/changes";
+import { buildLineage, getLineageRoot } from "~/utils/lineage";
 
 const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
 
-// Cache for streaming results
-interface CachedResult {
-  changes: FileChange[];
-  summary: {
-    added: number;
-    modified: number;
-    deleted: number;
-    renamed: number;
-  };
-  timestamp: number;
+// Key for sharing identical in-flight comparisons in the queue
+function getQueueKey(oldPath: string, newPath: string, options: StreamOptions): string {
+  const treeWalk = options.engine === "tree-walk" ? `:tree-walk${options.hash ? ":hash" : ""}` : "";
+  return `${oldPath}:${newPath}${options.metadata ? ":metadata" : ""}${treeWalk}`;
 }
 
-const streamCache = new Map<string, CachedResult>();
-const CACHE_TTL = 1000 * 60 * 60; // 1 hour TTL
-
-function getCacheKey(oldPath: string, newPath: string): string {
-  return `${oldPath}:${newPath}`;
-}
-
-function getCachedResult(oldPath: string, newPath: string): CachedResult | null {
-  const key = getCacheKey(oldPath, newPath);
-  const cached = streamCache.get(key);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached;
-  }
-  if (cached) {
-    streamCache.delete(key); // Expired
-  }
-  return null;
-}
-
-function setCachedResult(oldPath: string, newPath: string, changes: FileChange[], summary: CachedResult["summary"]): void {
-  const key = getCacheKey(oldPath, newPath);
-  streamCache.set(key, { changes, summary, timestamp: Date.now() });
-}
-
-export function clearCache(oldPath: string, newPath: string): void {
-  const key = getCacheKey(oldPath, newPath);
-  streamCache.delete(key);
-}
-
-// Valid change types (excluding utimes/chmod/chown - too noisy)
-const VALID_TYPES: ChangeType[] = [
-  "write",
-  "rename",
-  "unlink",
-  "rmdir",
-  "mkdir",
-  "link",
-  "symlink",
-  "truncate",
-  "clone",
-];
-
 /**
- * Extract path from btrfs dump output, handling escaped characters
+ * Look up the UUIDs of two snapshots, which identify them even if their
+ * paths are reused
+ * Read from the active backend's subvolume list, which the btrfs backend
+ * caches, so cache hits spawn no processes.
+ * Returns null if they cannot be read, in which case results are not cached
  */
-function extractPath(str: string): string {
-  const bytes: number[] = [];
-  let i = 0;
-  while (i < str.length) {
-    if (str[i] === "\\" && i + 1 < str.length) {
-      const octalMatch = str.slice(i + 1).match(/^([0-7]{1,3})/);
-      if (octalMatch) {
-        const octalValue = parseInt(octalMatch[1], 8);
-        bytes.push(octalValue);
-        i += 1 + octalMatch[1].length;
-      } else {
-        bytes.push(str.charCodeAt(i + 1));
-        i += 2;
-      }
-    } else if (str[i] === " ") {
-      if (str.slice(i).startsWith(" -> ")) {
-        break;
-      }
-      const remaining = str.slice(i + 1);
-      if (remaining.match(/^(offset|len|atime|mtime|ctime|mode|uid|gid|dest|uuid|transid|parent_uuid|parent_transid|name)=/)) {
-        break;
-      }
-      bytes.push(str.charCodeAt(i));
-      i++;
-    } else {
-      bytes.push(str.charCodeAt(i));
-      i++;
-    }
+async function getSnapshotUuids(oldPath: string, newPath: string): Promise<[string, string] | null> {
+  try {
+    const subvolumes = await getSubvolumes();
+    const oldUuid = subvolumes.find((sv) => sv.path === oldPath)?.uuid;
+    const newUuid = subvolumes.find((sv) => sv.path === newPath)?.uuid;
+    return oldUuid && newUuid ? [oldUuid, newUuid] : null;
+  } catch {
+    return null;
   }
-  return Buffer.from(bytes).toString("utf-8");
 }
 
-/**
- * Strip the snapshot prefix from paths
- */
-function stripSnapshotPrefix(path: string): string {
-  if (path.startsWith("./")) {
-    path = path.slice(2);
-  }
-  const slashIndex = path.indexOf("/");
-  if (slashIndex !== -1) {
-    return path.slice(slashIndex + 1);
+export async function clearCache(oldPath: string, newPath: string): Promise<void> {
+  const uuids = await getSnapshotUuids(oldPath, newPath);
+  if (uuids) {
+    deleteCachedComparison(...uuids);
   }
-  return path;
 }
 
 /**
- * Check if a path is an orphan object
+ * Whether two subvolumes come from one lineage (Parent or Received UUID
+ * chains meet), so their inode numbers refer to the same files
+ * False when they aren't btrfs subvolumes, e.g. plain directory backups
  */
-function isOrphanPath(path: string): boolean {
-  return /^o\d+-\d+-\d+(\/|$)/.test(path);
-}
-
-/**
- * Parse a single line from btrfs receive --dump output
- */
-function parseLine(line: string): { type: string; rest: string } | null {
-  const trimmed = line.trim();
-  if (!trimmed) return null;
-
-  const match = trimmed.match(/^(\w+)\s+(.+)$/);
-  if (!match) return null;
-
-  return { type: match[1].toLowerCase(), rest: match[2] };
+async function shareLineage(oldPath: string, newPath: string): Promise<boolean> {
+  try {
+    const subvolumes = await getSubvolumes();
+    const oldSubvolume = subvolumes.find((sv) => sv.path === oldPath);
+    const newSubvolume = subvolumes.find((sv) => sv.path === newPath);
+    if (!oldSubvolume || !newSubvolume) return false;
+
+    const lineage = buildLineage(subvolumes);
+    return getLineageRoot(lineage, oldSubvolume).path === getLineageRoot(lineage, newSubvolume).path;
+  } catch {
+    return false;
+  }
 }
 
 export interface StreamEvent {
-  type: "change" | "progress" | "done" | "error";
+  type: "change" | "progress" | "queued" | "done" | "error";
   data?: FileChange;
   message?: string;
-  summary?: {
-    added: number;
-    modified: number;
-    deleted: number;
-    renamed: number;
-  };
+  position?: number; // Queue position, sent with "queued"
+  summary?: ChangeSummary;
+  changes?: FileChange[]; // Net changes, sent with "done"
+  engine?: ComparisonEngine; // What produced the changes, sent with "done"
+}
+
+export interface StreamOptions extends ChangeBuilderOptions {
+  // Kills btrfs send when aborted, e.g. when the client disconnects
+  signal?: AbortSignal;
+  // Use this engine instead of picking the fastest available
+  engine?: ComparisonEngine;
+  // Tree walk only: hash files to confirm content changes
+  hash?: boolean;
 }
 
 /**
  * Stream changes between two snapshots
- * Yields FileChange objects as they are parsed
- * Uses cache if available for instant results
+ * Yields provisional FileChange objects as they are parsed, then the
+ * net changes with "done"
+ * Uses cache or the history index if available for instant results,
+ * otherwise waits for a slot in the comparison queue
  */
 export async function* streamChanges(
   oldSnapshotPath: string,
-  newSnapshotPath: string
+  newSnapshotPath: string,
+  options: StreamOptions = {}
 ): AsyncGenerator<StreamEvent> {
+  const metadata = options.metadata ?? false;
+
+  if (options.engine === "tree-walk") {
+    yield* runQueued(
+      getQueueKey(oldSnapshotPath, newSnapshotPath, options),
+      (signal) => runTreeComparison(oldSnapshotPath, newSnapshotPath, { ...options, signal }),
+      options.signal
+    );
+    return;
+  }
+
   // Check cache first
-  const cached = getCachedResult(oldSnapshotPath, newSnapshotPath);
+  const uuids = await getSnapshotUuids(oldSnapshotPath, newSnapshotPath);
+  const cached = uuids && getCachedComparison(...uuids, metadata);
   if (cached) {
-    // Emit all cached changes immediately (filter orphans for safety with old cache data)
-    for (const change of cached.changes) {
-      if (!isOrphanPath(change.path)) {
-        yield { type: "change", data: change };
-      }
-    }
-    yield { type: "done", message: "Loaded from cache", summary: cached.summary };
+    yield { type: "done", message: "Loaded from cache", summary: cached.summary, changes: cached.changes, engine: "btrfs-send" };
     return;
   }
 
+  // The history index has no metadata changes
+  if (!metadata && options.engine !== "btrfs-send") {
+    const indexed = getChangesFromIndex(oldSnapshotPath, newSnapshotPath);
+    if (indexed) {
+      const summary = summarizeChanges(indexed);
+      yield { type: "done", message: `Composed from history index. Found ${indexed.length} changes.`, summary, changes: indexed, engine: "history-index" };
+      return;
+    }
+  }
+
+  // Identical in-flight comparisons share one btrfs send
+  yield* runQueued(
+    getQueueKey(oldSnapshotPath, newSnapshotPath, options),
+    (signal) => runComparison(oldSnapshotPath, newSnapshotPath, uuids, { ...options, signal }),
+    options.signal
+  );
+}
+
+/**
+ * Run btrfs send for a comparison and cache the result
+ * Falls back to walking both trees if send fails
+ */
+async function* runComparison(
+  oldSnapshotPath: string,
+  newSnapshotPath: string,
+  uuids: [string, string] | null,
+  options: StreamOptions
+): AsyncGenerator<StreamEvent> {
+  const metadata = options.metadata ?? false;
   const fullOldPath = `${BTRFS_ROOT}${oldSnapshotPath}`;
   const fullNewPath = `${BTRFS_ROOT}${newSnapshotPath}`;
 
-  const cmd = `btrfs send -p "${fullOldPath}" "${fullNewPath}" 2>/dev/null | btrfs receive --dump 2>/dev/null | grep -vE "^(utimes|chmod|chown|update_extent|set_xattr|snapshot|At subvol) "`;
-
-  const proc = spawn("sh", ["-c", cmd], {
-    stdio: ["ignore", "pipe", "pipe"],
-  });
+  // Cancelled by the queue or from the registry
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", forwardAbort, { once: true });
+  if (options.signal?.aborted) controller.abort();
+
+  // Read the raw send stream directly - no `btrfs receive --dump` text to scrape
+  const send = spawnBtrfsSend(fullOldPath, fullNewPath, controller.signal);
+  const comparison = registerComparison(
+    { oldSnapshotPath, newSnapshotPath, metadata, pid: send.pid },
+    controller
+  );
+
+  async function* countCommands(commands: AsyncIterable<SendCommand>) {
+    for await (const command of commands) {
+      comparison.commands++;
+      yield command;
+    }
+  }
 
-  const rl = createInterface({
-    input: proc.stdout,
-    crlfDelay: Infinity,
-  });
+  try {
+    yield { type: "progress", message: "Running btrfs send..." };
+    let allChanges = yield* streamCommandChanges(countCommands(decodeSendStream(send.stdout)), options);
 
-  // Track orphan state for proper classification
-  const orphanToSource = new Map<string, string>(); // orphan path -> original source path
-  const pendingOrphanDeletes = new Map<string, FileChange>(); // orphan path -> pending delete change
+    if (controller.signal.aborted) {
+      throw new Error("Comparison cancelled");
+    }
 
-  // Track newly created files - skip write events for these
-  const newlyCreatedFiles = new Set<string>();
+    const sendError = await send.result;
+    if (sendError) {
+      throw new Error(sendError);
+    }
 
-  // Track changes for deduplication
-  const changeMap = new Map<string, FileChange>();
-  let lineCount = 0;
+    await fillFileSizes(allChanges, fullNewPath);
 
-  // Returns true if change was added (not an orphan), false otherwise
-  const emitChange = (change: FileChange): boolean => {
-    // Final safeguard: skip any orphan paths that slipped through
-    if (isOrphanPath(change.path)) {
-      return false;
+    if (metadata) {
+      yield { type: "progress", message: "Reading old metadata values..." };
+      allChanges = await resolveOldMetadata(allChanges, fullOldPath);
     }
-    const key = `${change.type}:${change.path}`;
-    const existing = changeMap.get(key);
-    if (existing) {
-      // Accumulate sizes for writes
-      if (change.size) {
-        existing.size = (existing.size || 0) + change.size;
-      }
-    } else {
-      changeMap.set(key, change);
-    }
-    return true;
-  };
 
-  try {
-    for await (const line of rl) {
-      lineCount++;
+    const summary = summarizeChanges(allChanges);
 
-      // Emit progress every 100 lines
-      if (lineCount % 100 === 0) {
-        yield { type: "progress", message: `Processed ${lineCount} lines...` };
-      }
-
-      const parsed = parseLine(line);
-      if (!parsed) continue;
-
-      const { type, rest } = parsed;
-
-      // Handle rename operations specially for orphan tracking
-      if (type === "rename") {
-        const destMatch = rest.match(/^(.+?)\s+dest=(.+)$/);
-        if (destMatch) {
-          const sourcePath = extractPath(destMatch[1]);
-          const destPath = extractPath(destMatch[2]);
-          const strippedSource = stripSnapshotPrefix(sourcePath);
-          const strippedDest = stripSnapshotPrefix(destPath);
-
-          // Rename TO orphan = pending delete (wait for rmdir to determine type)
-          if (isOrphanPath(strippedDest)) {
-            orphanToSource.set(strippedDest, strippedSource);
-            // Create pending delete - default to unlink, will change to rmdir if we see rmdir
-            pendingOrphanDeletes.set(strippedDest, {
-              type: "unlink",
-              path: strippedSource,
-            });
-            continue;
-          }
-
-          // Rename FROM orphan = file creation
-          if (isOrphanPath(strippedSource)) {
-            newlyCreatedFiles.add(strippedDest);
-            const linkChange: FileChange = { type: "link", path: strippedDest };
-            if (emitChange(linkChange)) {
-              yield { type: "change", data: linkChange };
-            }
-            continue;
-          }
-
-          // Normal rename
-          if (!isOrphanPath(strippedSource) && !isOrphanPath(strippedDest)) {
-            const change: FileChange = {
-              type: "rename",
-              path: strippedDest,
-              oldPath: strippedSource,
-            };
-            if (emitChange(change)) {
-              yield { type: "change", data: change };
-            }
-          }
-        }
-        continue;
-      }
+    // Cache the results for future requests
+    if (uuids) {
+      setCachedComparison(...uuids, metadata, { changes: allChanges, summary });
+    }
 
-      // Handle rmdir on orphan - marks it as a directory deletion
-      if (type === "rmdir") {
-        const rawPath = extractPath(rest);
-        const strippedPath = stripSnapshotPrefix(rawPath);
-
-        // Check for orphan in BOTH raw and stripped paths
-        // Raw catches: o123-456-0/subfolder (direct orphan cleanup)
-        // Stripped catches: ./snapshot/o123-456-0 (orphan with snapshot prefix)
-        if (isOrphanPath(rawPath) || isOrphanPath(strippedPath)) {
-          const pending = pendingOrphanDeletes.get(strippedPath);
-          if (pending) {
-            // Update to rmdir and emit
-            pending.type = "rmdir";
-            if (emitChange(pending)) {
-              yield { type: "change", data: pending };
-            }
-            pendingOrphanDeletes.delete(strippedPath);
-          }
-          // Skip all orphan paths (including sub-folders being cleaned up)
-          continue;
-        }
-
-        // Normal rmdir
-        const change: FileChange = { type: "rmdir", path: strippedPath };
-        if (emitChange(change)) {
-          yield { type: "change", data: change };
-        }
-        continue;
-      }
+    yield { type: "done", message: `Completed. Found ${allChanges.length} changes.`, summary, changes: allChanges, engine: "btrfs-send" };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      yield { type: "error", message: "Comparison cancelled" };
+      return;
+    }
 
-      // Handle unlink on orphan - emit the pending delete
-      if (type === "unlink") {
-        const rawPath = extractPath(rest);
-        const strippedPath = stripSnapshotPrefix(rawPath);
-
-        // Check for orphan in BOTH raw and stripped paths
-        // Raw catches: o123-456-0/file (direct orphan cleanup)
-        // Stripped catches: ./snapshot/o123-456-0 (orphan with snapshot prefix)
-        if (isOrphanPath(rawPath) || isOrphanPath(strippedPath)) {
-          const pending = pendingOrphanDeletes.get(strippedPath);
-          if (pending) {
-            if (emitChange(pending)) {
-              yield { type: "change", data: pending };
-            }
-            pendingOrphanDeletes.delete(strippedPath);
-          }
-          // Skip all orphan paths (including files being cleaned up)
-          continue;
-        }
-
-        // Normal unlink
-        const change: FileChange = { type: "unlink", path: strippedPath };
-        if (emitChange(change)) {
-          yield { type: "change", data: change };
-        }
-        continue;
-      }
+    // No shared parent, not read-only, not privileged, ...
+    const reason = error instanceof Error ? error.message : String(error);
+    yield { type: "progress", message: `${reason}. Comparing directory trees instead...` };
+    try {
+      yield* walkTrees(oldSnapshotPath, newSnapshotPath, { ...options, signal: controller.signal });
+    } catch (walkError) {
+      const message = controller.signal.aborted ? "Comparison cancelled" : `${reason}; tree walk failed too: ${String(walkError)}`;
+      yield { type: "error", message };
+    }
+  } finally {
+    send.kill();
+    unregisterComparison(comparison.id);
+    options.signal?.removeEventListener("abort", forwardAbort);
+  }
+}
 
-      // Skip invalid types
-      if (!VALID_TYPES.includes(type as ChangeType)) continue;
+/**
+ * Compare two snapshots by walking their directory trees
+ */
+async function* runTreeComparison(
+  oldSnapshotPath: string,
+  newSnapshotPath: string,
+  options: StreamOptions
+): AsyncGenerator<StreamEvent> {
+  // Cancelled by the queue or from the registry
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", forwardAbort, { once: true });
+  if (options.signal?.aborted) controller.abort();
 
-      // Handle other change types
-      const rawPath = extractPath(rest);
-      const strippedPath = stripSnapshotPrefix(rawPath);
+  const comparison = registerComparison(
+    { oldSnapshotPath, newSnapshotPath, metadata: false },
+    controller
+  );
 
-      // Skip orphan paths (check BOTH raw and stripped)
-      if (isOrphanPath(rawPath) || isOrphanPath(strippedPath)) continue;
+  try {
+    yield* walkTrees(oldSnapshotPath, newSnapshotPath, { ...options, signal: controller.signal });
+  } catch (error) {
+    const message = controller.signal.aborted ? "Comparison cancelled" : String(error);
+    yield { type: "error", message };
+  } finally {
+    unregisterComparison(comparison.id);
+    options.signal?.removeEventListener("abort", forwardAbort);
+  }
+}
 
-      // Skip write events for newly created files (they're already tracked as "link"/created)
-      if (type === "write" && newlyCreatedFiles.has(strippedPath)) continue;
+/**
+ * Diff the directory trees of two snapshots, reporting progress while
+ * walking them
+ */
+async function* walkTrees(oldSnapshotPath: string, newSnapshotPath: string, options: StreamOptions): AsyncGenerator<StreamEvent> {
+  const byInode = await shareLineage(oldSnapshotPath, newSnapshotPath);
+  const walk = diffTrees(`${BTRFS_ROOT}${oldSnapshotPath}`, `${BTRFS_ROOT}${newSnapshotPath}`, {
+    hash: options.hash,
+    byInode,
+    signal: options.signal,
+  });
+  let next = await walk.next();
+  while (!next.done) {
+    yield { type: "progress", message: `Walked ${next.value} entries...` };
+    next = await walk.next();
+  }
 
-      const change: FileChange = { type: type as ChangeType, path: strippedPath };
+  const changes = next.value;
+  const summary = summarizeChanges(changes);
+  yield { type: "done", message: `Completed tree walk. Found ${changes.length} changes.`, summary, changes, engine: "tree-walk" };
+}
 
-      // Extract size for write operations
-      if (type === "write") {
-        const lenMatch = rest.match(/len=(\d+)/);
-        if (lenMatch) {
-          change.size = parseInt(lenMatch[1], 10);
-        }
+/**
+ * Fill in the size of rewritten files from the newer snapshot, so write
+ * maps can show how much of each file changed
+ * Files the stream truncated already know their size
+ */
+export async function fillFileSizes(changes: FileChange[], newSnapshotRoot: string): Promise<void> {
+  for (const change of changes) {
+    if (change.ranges && change.fileSize === undefined) {
+      try {
+        change.fileSize = (await lstat(join(newSnapshotRoot, change.path))).size;
+      } catch {
+        // Size stays unknown
       }
+    }
+  }
+}
 
-      if (emitChange(change)) {
-        yield { type: "change", data: change };
-      }
+/**
+ * Turn decoded send commands into change and progress events
+ * Shared by live comparisons and imported send streams/dumps
+ * Change events are provisional; the net changes are returned once the
+ * commands are exhausted
+ */
+export async function* streamCommandChanges(
+  commands: AsyncIterable<SendCommand>,
+  options: ChangeBuilderOptions = {}
+): AsyncGenerator<StreamEvent, FileChange[]> {
+  const builder = createChangeBuilder(options);
+  let commandCount = 0;
+
+  for await (const command of commands) {
+    commandCount++;
+
+    // Emit progress every 100 commands
+    if (commandCount % 100 === 0) {
+      yield { type: "progress", message: `Processed ${commandCount} operations...` };
     }
 
-    // Emit any remaining pending orphan deletes
-    for (const [, pending] of pendingOrphanDeletes) {
-      if (emitChange(pending)) {
-        yield { type: "change", data: pending };
+    for (const change of builder.push(command)) {
+      // Final safeguard: skip any orphan paths that slipped through
+      if (!isOrphanPath(change.path)) {
+        yield { type: "change", data: change };
       }
     }
-
-    // Calculate summary from deduplicated changes
-    const allChanges = Array.from(changeMap.values());
-    const summary = {
-      added: allChanges.filter(
-        (c) => c.type === "mkdir" || c.type === "link" || c.type === "symlink"
-      ).length,
-      modified: allChanges.filter(
-        (c) => c.type === "write" || c.type === "truncate"
-      ).length,
-      deleted: allChanges.filter(
-        (c) => c.type === "unlink" || c.type === "rmdir"
-      ).length,
-      renamed: allChanges.filter((c) => c.type === "rename").length,
-    };
-
-    // Cache the results for future requests
-    setCachedResult(oldSnapshotPath, newSnapshotPath, allChanges, summary);
-
-    yield { type: "done", message: `Completed. Processed ${lineCount} lines.`, summary };
-  } catch (error) {
-    yield { type: "error", message: String(error) };
-  } finally {
-    proc.kill();
   }
+
+  return builder.finish();
 }
 
 /**
@@ -389,23 +330,16 @@ export async function* streamChanges(
 export async function getChangesFromStream(
   oldSnapshotPath: string,
   newSnapshotPath: string
-): Promise<{ changes: FileChange[]; summary: { added: number; modified: number; deleted: number; renamed: number } }> {
-  const changeMap = new Map<string, FileChange>();
-  let summary = { added: 0, modified: 0, deleted: 0, renamed: 0 };
+): Promise<{ changes: FileChange[]; summary: ChangeSummary }> {
+  let changes: FileChange[] = [];
+  let summary: ChangeSummary = { added: 0, modified: 0, deleted: 0, renamed: 0 };
 
   for await (const event of streamChanges(oldSnapshotPath, newSnapshotPath)) {
-    if (event.type === "change" && event.data) {
-      const key = `${event.data.type}:${event.data.path}`;
-      const existing = changeMap.get(key);
-      if (existing && event.data.size) {
-        existing.size = (existing.size || 0) + event.data.size;
-      } else if (!existing) {
-        changeMap.set(key, event.data);
-      }
-    } else if (event.type === "done" && event.summary) {
-      summary = event.summary;
+    if (event.type === "done") {
+      changes = event.changes ?? [];
+      summary = event.summary ?? summarizeChanges(changes);
     }
   }
 
-  return { changes: Array.from(changeMap.values()), summary };
+  return { changes, summary };
 }
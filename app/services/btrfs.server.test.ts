@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSubvolumeList } from "./btrfs.server";
+
+// `btrfs subvolume list -t -u -q -R -c /`, from btrfs-progs 6.x
+const LIST = [
+  "ID\tgen\tcgen\ttop level\tparent_uuid\treceived_uuid\tuuid\tpath\t",
+  "--\t---\t----\t---------\t-----------\t-------------\t----\t----\t",
+  "256\t9120\t7\t5\t-\t-\t3f1c2a4e-0b5d-4c6e-8f70-91a2b3c4d5e6\t@",
+  "257\t9118\t8\t5\t-\t-\t7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d\t@home",
+  "300\t8800\t8790\t256\t3f1c2a4e-0b5d-4c6e-8f70-91a2b3c4d5e6\t-\t11111111-2222-4333-8444-555555555555\t@/.snapshots/1/snapshot",
+  "301\t8900\t8899\t5\t-\te0d1c2b3-a4f5-4607-8819-2a3b4c5d6e7f\t22222222-3333-4444-8555-666666666666\tbackups/home.20260128",
+  "302\t9000\t8999\t5\t7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d\t-\t33333333-4444-4555-8666-777777777777\tsnaps/tab\tin\t\tname ",
+  "",
+].join("\n");
+
+test("parseSubvolumeList reads IDs, UUIDs and paths by column", () => {
+  assert.deepEqual(parseSubvolumeList(LIST), [
+    { id: 256, path: "/@", parentId: null, uuid: "3f1c2a4e-0b5d-4c6e-8f70-91a2b3c4d5e6", parentUuid: null, receivedUuid: null },
+    { id: 257, path: "/@home", parentId: null, uuid: "7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d", parentUuid: null, receivedUuid: null },
+    {
+      id: 300,
+      path: "/@/.snapshots/1/snapshot",
+      parentId: 256,
+      uuid: "11111111-2222-4333-8444-555555555555",
+      parentUuid: "3f1c2a4e-0b5d-4c6e-8f70-91a2b3c4d5e6",
+      receivedUuid: null,
+    },
+    {
+      id: 301,
+      path: "/backups/home.20260128",
+      parentId: null,
+      uuid: "22222222-3333-4444-8555-666666666666",
+      parentUuid: null,
+      receivedUuid: "e0d1c2b3-a4f5-4607-8819-2a3b4c5d6e7f",
+    },
+    {
+      id: 302,
+      path: "/snaps/tab\tin\t\tname ",
+      parentId: null,
+      uuid: "33333333-4444-4555-8666-777777777777",
+      parentUuid: "7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d",
+      receivedUuid: null,
+    },
+  ]);
+});
+
+test("parseSubvolumeList finds columns by their header", () => {
+  // Older btrfs-progs without cgen, and columns in another order
+  const list = [
+    "ID\tgen\ttop level\tuuid\tparent_uuid\treceived_uuid\tpath\t",
+    "--\t---\t---------\t----\t-----------\t-------------\t----\t",
+    "258\t10\t5\t-\t-\t-\tdata",
+  ].join("\n");
+
+  assert.deepEqual(parseSubvolumeList(list), [
+    { id: 258, path: "/data", parentId: null, uuid: "", parentUuid: null, receivedUuid: null },
+  ]);
+});
+
+test("parseSubvolumeList reads an empty filesystem as no subvolumes", () => {
+  assert.deepEqual(parseSubvolumeList(""), []);
+  assert.deepEqual(parseSubvolumeList(LIST.split("\n").slice(0, 2).join("\n")), []);
+});
@@ -1,17 +1,31 @@
 import { exec } from "child_process";
+import { stat } from "fs/promises";
+import { dirname, join } from "path";
 import { promisify } from "util";
 import type {
   Subvolume,
   Snapshot,
   FileChange,
   SnapshotComparison,
-  ChangeType,
+  ComparisonEngine,
 } from "~/types";
+import type { SnapshotBackend } from "./backend.server";
+import { streamChanges } from "./btrfs-stream.server";
+import { getFileDiff } from "./diff.server";
+import { getSnapperSnapshots } from "./snapper.server";
+import { isNamingLayout, parseSnapshotPath, readRetentionClass } from "./snapshot-layout.server";
+import { getDirectoryContents, getFileContent } from "./file-listing.server";
+import { summarizeChanges } from "~/utils/changes";
+import { buildLineage, getLineageRoot } from "~/utils/lineage";
 
 const execAsync = promisify(exec);
 
 // Configuration - can be overridden via environment
 const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
+// How snapshots are laid out: default (Parent/Received UUID lineage), snapper
+// (.snapshots/<n>/info.xml), or naming conventions: btrbk, timeshift or regex
+// (SNAPSHOT_PATTERN), several separated by commas (e.g. "btrbk,timeshift")
+const SNAPSHOT_LAYOUT = process.env.SNAPSHOT_LAYOUT || "default";
 
 /**
  * Safely escape a string for use in shell commands
@@ -21,31 +35,6 @@ function shellEscape(str: string): string {
   return `'${str.replace(/'/g, "'\\''")}'`;
 }
 
-// In-memory cache for comparison results
-const comparisonCache = new Map<string, { data: SnapshotComparison; timestamp: number }>();
-const CACHE_TTL = 1000 * 60 * 60; // 1 hour TTL
-
-function getCacheKey(oldPath: string, newPath: string): string {
-  return `${oldPath}:${newPath}`;
-}
-
-function getCachedComparison(oldPath: string, newPath: string): SnapshotComparison | null {
-  const key = getCacheKey(oldPath, newPath);
-  const cached = comparisonCache.get(key);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return cached.data;
-  }
-  if (cached) {
-    comparisonCache.delete(key); // Expired
-  }
-  return null;
-}
-
-function setCachedComparison(oldPath: string, newPath: string, data: SnapshotComparison): void {
-  const key = getCacheKey(oldPath, newPath);
-  comparisonCache.set(key, { data, timestamp: Date.now() });
-}
-
 /**
  * Execute a btrfs command and return stdout
  */
@@ -61,80 +50,154 @@ async function runBtrfs(args: string): Promise<string> {
   }
 }
 
+interface SubvolumeCache {
+  subvolumes: Subvolume[];
+  // Directories holding subvolumes, and their mtime when listed
+  // Creating or deleting a subvolume changes the mtime of its directory
+  dirMtimes: Map<string, number>;
+}
+
+let subvolumeCache: SubvolumeCache | null = null;
+let pendingListing: Promise<SubvolumeCache> | null = null;
+
+function parseUuid(value: string | undefined): string | null {
+  return value && value !== "-" ? value : null;
+}
+
 /**
- * List all subvolumes on the filesystem
+ * Parse the table printed by `btrfs subvolume list -t -u -q -R -c`
+ * Columns are separated by single tabs and found by their header; path
+ * comes last and may itself hold tabs
  */
-export async function getSubvolumes(): Promise<Subvolume[]> {
-  const output = await runBtrfs(`subvolume list -t ${shellEscape(BTRFS_ROOT)}`);
-  const lines = output.trim().split("\n");
+export function parseSubvolumeList(output: string): Omit<Subvolume, "createdAt" | "isSnapshot">[] {
+  const lines = output.split("\n").filter((line) => line.trim());
+  if (lines.length < 2) return [];
+
+  const header = lines[0].split("\t").map((column) => column.trim());
+  const column = (name: string) => header.indexOf(name);
+  const pathColumn = column("path");
+
+  // Skip the header and its underline
+  return lines.slice(1).filter((line) => !line.startsWith("--")).map((line) => {
+    const fields = line.split("\t");
+    const parentId = parseInt(fields[column("top level")], 10);
+    return {
+      id: parseInt(fields[column("ID")], 10),
+      path: `/${fields.slice(pathColumn).join("\t")}`,
+      parentId: parentId === 5 ? null : parentId,
+      uuid: parseUuid(fields[column("uuid")]) ?? "",
+      parentUuid: parseUuid(fields[column("parent_uuid")]),
+      receivedUuid: parseUuid(fields[column("received_uuid")]),
+    };
+  });
+}
 
-  // Skip header lines
-  const dataLines = lines.slice(2);
-  const subvolumes: Subvolume[] = [];
+/**
+ * Read a subvolume's creation time (otime) with `btrfs subvolume show`
+ * Returns null if it can't be read
+ */
+async function showCreationTime(id: number): Promise<Date | null> {
+  try {
+    const output = await runBtrfs(`subvolume show -r ${id} ${shellEscape(BTRFS_ROOT)}`);
+    const match = output.match(/^\s*Creation time:\s*(.+)$/m);
+    const date = match ? new Date(match[1].trim()) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  } catch {
+    return null;
+  }
+}
 
-  for (const line of dataLines) {
-    // Format: ID gen top level path
-    const parts = line.trim().split(/\s+/);
-    if (parts.length >= 4) {
-      const id = parseInt(parts[0], 10);
-      const parentId = parseInt(parts[2], 10);
-      const path = parts.slice(3).join(" ");
-
-      // Get more details
-      const info = await getSubvolumeInfo(path);
-
-      subvolumes.push({
-        id,
-        path: `/${path}`,
-        parentId: parentId === 5 ? null : parentId,
-        uuid: info.uuid,
-        parentUuid: info.parentUuid,
-        createdAt: info.createdAt,
-        isSnapshot: info.parentUuid !== null,
-      });
+/**
+ * List subvolumes with one btrfs call
+ * Creation times come from the birth time of each subvolume's root
+ * directory, which btrfs sets to the subvolume's otime. Where the kernel
+ * doesn't report it, `btrfs subvolume show` is asked, one subvolume at a
+ * time. Subvolumes whose creation time can't be read either way are left
+ * out rather than given a wrong date.
+ */
+async function listSubvolumes(): Promise<SubvolumeCache> {
+  const output = await runBtrfs(`subvolume list -t -u -q -R -c ${shellEscape(BTRFS_ROOT)}`);
+  const listed = parseSubvolumeList(output);
+
+  const birthtimes = await Promise.all(listed.map((sv) =>
+    stat(join(BTRFS_ROOT, sv.path))
+      .then((stats) => (stats.birthtimeMs > 0 ? stats.birthtime : null))
+      .catch(() => null)
+  ));
+
+  const subvolumes: Subvolume[] = [];
+  for (const [i, sv] of listed.entries()) {
+    const createdAt = birthtimes[i] ?? (await showCreationTime(sv.id));
+    if (!createdAt) {
+      console.error(`Skipping subvolume ${sv.path}: its creation time can't be read`);
+      continue;
     }
+    subvolumes.push({
+      ...sv,
+      createdAt,
+      // Full receives have no parent UUID, but a received UUID or a name that says what they are
+      isSnapshot:
+        sv.parentUuid !== null ||
+        sv.receivedUuid !== null ||
+        parseSnapshotPath(SNAPSHOT_LAYOUT, sv.path) !== null,
+    });
   }
 
-  return subvolumes;
+  const dirs = new Set([BTRFS_ROOT, ...subvolumes.map((sv) => dirname(join(BTRFS_ROOT, sv.path)))]);
+  const dirMtimes = new Map<string, number>();
+  await Promise.all([...dirs].map(async (dir) => {
+    const stats = await stat(dir).catch(() => null);
+    dirMtimes.set(dir, stats?.mtimeMs ?? 0);
+  }));
+
+  return { subvolumes, dirMtimes };
+}
+
+async function isCacheFresh(cache: SubvolumeCache): Promise<boolean> {
+  const checks = await Promise.all([...cache.dirMtimes].map(async ([dir, mtime]) => {
+    const stats = await stat(dir).catch(() => null);
+    return (stats?.mtimeMs ?? 0) === mtime;
+  }));
+  return checks.every(Boolean);
 }
 
 /**
- * Get detailed info about a subvolume
+ * List all subvolumes on the filesystem
+ * Cached until a directory holding subvolumes changes; concurrent callers
+ * share one listing
  */
-async function getSubvolumeInfo(path: string): Promise<{
-  uuid: string;
-  parentUuid: string | null;
-  createdAt: Date;
-}> {
-  try {
-    const output = await runBtrfs(`subvolume show ${shellEscape(`${BTRFS_ROOT}/${path}`)}`);
-    const lines = output.split("\n");
-
-    let uuid = "";
-    let parentUuid: string | null = null;
-    let createdAt = new Date();
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith("UUID:")) {
-        uuid = trimmed.split(/\s+/)[1] || "";
-      } else if (trimmed.startsWith("Parent UUID:")) {
-        const val = trimmed.split(/\s+/)[2];
-        parentUuid = val && val !== "-" ? val : null;
-      } else if (trimmed.startsWith("Creation time:")) {
-        const dateStr = trimmed.replace("Creation time:", "").trim();
-        createdAt = new Date(dateStr);
-      }
-    }
-
-    return { uuid, parentUuid, createdAt };
-  } catch {
-    return {
-      uuid: "",
-      parentUuid: null,
-      createdAt: new Date(),
-    };
+export async function getSubvolumes(): Promise<Subvolume[]> {
+  if (subvolumeCache && (await isCacheFresh(subvolumeCache))) {
+    return subvolumeCache.subvolumes;
   }
+
+  pendingListing ??= listSubvolumes().finally(() => {
+    pendingListing = null;
+  });
+  subvolumeCache = await pendingListing;
+  return subvolumeCache.subvolumes;
+}
+
+/**
+ * Drop the cached subvolume list, e.g. after creating or deleting one
+ */
+export function invalidateSubvolumeCache(): void {
+  subvolumeCache = null;
+}
+
+/**
+ * Take a read-only snapshot of a subvolume
+ */
+export async function createSnapshot(sourcePath: string, snapshotPath: string): Promise<void> {
+  await runBtrfs(
+    `subvolume snapshot -r ${shellEscape(join(BTRFS_ROOT, sourcePath))} ${shellEscape(join(BTRFS_ROOT, snapshotPath))}`
+  );
+  invalidateSubvolumeCache();
+}
+
+export async function deleteSnapshot(snapshotPath: string): Promise<void> {
+  await runBtrfs(`subvolume delete ${shellEscape(join(BTRFS_ROOT, snapshotPath))}`);
+  invalidateSubvolumeCache();
 }
 
 /**
@@ -143,24 +206,25 @@ async function getSubvolumeInfo(path: string): Promise<{
 export async function getSnapshots(subvolumePath: string): Promise<Snapshot[]> {
   const allSubvolumes = await getSubvolumes();
 
-  // Find snapshots that have this subvolume as their source
-  // This is determined by checking parent UUID or path patterns
+  if (SNAPSHOT_LAYOUT === "snapper") {
+    return getSnapperSnapshots(allSubvolumes, subvolumePath);
+  }
+  if (isNamingLayout(SNAPSHOT_LAYOUT)) {
+    return getNamedSnapshots(allSubvolumes, subvolumePath);
+  }
+
+  // Find snapshots whose Parent/Received UUID chain leads back to this
+  // subvolume, including snapshots of snapshots
+  const lineage = buildLineage(allSubvolumes);
   const snapshots: Snapshot[] = [];
 
   for (const sv of allSubvolumes) {
-    if (sv.isSnapshot) {
-      // Check if this snapshot is related to the target subvolume
-      // This heuristic can be improved based on your snapshot naming convention
-      if (
-        sv.path.includes(subvolumePath.replace(/^\//, "")) ||
-        sv.path.includes(".snapshots")
-      ) {
-        snapshots.push({
-          ...sv,
-          isSnapshot: true,
-          sourceSubvolume: subvolumePath,
-        });
-      }
+    if (sv.isSnapshot && getLineageRoot(lineage, sv).path === subvolumePath) {
+      snapshots.push({
+        ...sv,
+        isSnapshot: true,
+        sourceSubvolume: subvolumePath,
+      });
     }
   }
 
@@ -172,6 +236,29 @@ export async function getSnapshots(subvolumePath: string): Promise<Snapshot[]> {
   return snapshots;
 }
 
+/**
+ * Get snapshots whose names place them under a subvolume, oldest first
+ * The time in the name wins over the creation time, which is the time of
+ * receiving for backups
+ */
+async function getNamedSnapshots(allSubvolumes: Subvolume[], subvolumePath: string): Promise<Snapshot[]> {
+  const snapshots = await Promise.all(allSubvolumes.map(async (sv): Promise<Snapshot | null> => {
+    const parsed = parseSnapshotPath(SNAPSHOT_LAYOUT, sv.path, allSubvolumes);
+    if (parsed?.source !== subvolumePath) return null;
+    return {
+      ...sv,
+      createdAt: parsed.createdAt ?? sv.createdAt,
+      isSnapshot: true,
+      sourceSubvolume: subvolumePath,
+      retentionClass: parsed.retentionClass ?? (await readRetentionClass(sv.path)),
+    };
+  }));
+
+  return snapshots
+    .filter((snapshot): snapshot is Snapshot => snapshot !== null)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
 /**
  * Get changes between two snapshots using btrfs send --dump
  */
@@ -179,12 +266,6 @@ export async function getChanges(
   oldSnapshotPath: string,
   newSnapshotPath: string
 ): Promise<SnapshotComparison> {
-  // Check cache first
-  const cached = getCachedComparison(oldSnapshotPath, newSnapshotPath);
-  if (cached) {
-    return cached;
-  }
-
   // Get snapshot info
   const allSubvolumes = await getSubvolumes();
   const oldSnapshot = allSubvolumes.find(
@@ -198,264 +279,51 @@ export async function getChanges(
     throw new Error("Snapshot not found");
   }
 
-  // Use btrfs send to get changes
-  const changes = await getIncrementalChanges(oldSnapshotPath, newSnapshotPath);
-
-  const summary = {
-    added: changes.filter(
-      (c) => c.type === "mkdir" || c.type === "link" || c.type === "symlink"
-    ).length,
-    modified: changes.filter(
-      (c) => c.type === "write" || c.type === "truncate"
-    ).length,
-    deleted: changes.filter((c) => c.type === "unlink" || c.type === "rmdir")
-      .length,
-    renamed: changes.filter((c) => c.type === "rename").length,
-  };
+  // Use btrfs send or the history index to get changes
+  const { changes, engine } = await getIncrementalChanges(oldSnapshotPath, newSnapshotPath);
+
+  const summary = summarizeChanges(changes);
 
-  const result: SnapshotComparison = {
+  return {
     oldSnapshot,
     newSnapshot,
+    engine,
     changes,
     summary,
   };
-
-  // Cache the result
-  setCachedComparison(oldSnapshotPath, newSnapshotPath, result);
-
-  return result;
 }
 
 /**
- * Parse btrfs send --dump output to get file changes
+ * Decode the btrfs send stream between two snapshots into file changes
+ * Goes through the comparison queue, sharing any identical running send,
+ * unless the history index already covers the range
  */
 async function getIncrementalChanges(
   oldPath: string,
   newPath: string
-): Promise<FileChange[]> {
-  // Prepend BTRFS_ROOT to paths
-  const fullOldPath = `${BTRFS_ROOT}${oldPath}`;
-  const fullNewPath = `${BTRFS_ROOT}${newPath}`;
-
-  try {
-    // btrfs send piped to btrfs receive --dump to get human-readable output
-    // We need file data to get write operations that show actual file changes
-    // Filter out noisy changes (timestamps, permissions) at shell level to reduce output size
-    const { stdout } = await execAsync(
-      `btrfs send -p ${shellEscape(fullOldPath)} ${shellEscape(fullNewPath)} 2>/dev/null | btrfs receive --dump 2>/dev/null | grep -vE "^(utimes|chmod|chown|update_extent) "`,
-      { maxBuffer: 200 * 1024 * 1024 }
-    );
-
-    return parseSendDump(stdout);
-  } catch (error) {
-    console.error("Failed to get incremental changes:", error);
-    return [];
-  }
-}
-
-/**
- * Extract path from btrfs dump output, handling escaped characters
- * - Escaped spaces: path/to/save\ ff8\ ps1/file
- * - Octal escapes for UTF-8: \303\251 = é
- */
-function extractPath(str: string): string {
-  const bytes: number[] = [];
-  let i = 0;
-  while (i < str.length) {
-    if (str[i] === "\\" && i + 1 < str.length) {
-      // Check for octal escape (e.g., \303)
-      const octalMatch = str.slice(i + 1).match(/^([0-7]{1,3})/);
-      if (octalMatch) {
-        const octalValue = parseInt(octalMatch[1], 8);
-        bytes.push(octalValue);
-        i += 1 + octalMatch[1].length;
-      } else {
-        // Simple escape (e.g., \  for space)
-        bytes.push(str.charCodeAt(i + 1));
-        i += 2;
-      }
-    } else if (str[i] === " ") {
-      // Check if this is the " -> " rename separator
-      if (str.slice(i).startsWith(" -> ")) {
-        break;
-      }
-      // Check if followed by known attributes (offset=, len=, etc.)
-      const remaining = str.slice(i + 1);
-      if (remaining.match(/^(offset|len|atime|mtime|ctime|mode|uid|gid|dest|uuid|transid|parent_uuid|parent_transid)=/)) {
-        break;
-      }
-      // Otherwise continue (shouldn't normally happen)
-      bytes.push(str.charCodeAt(i));
-      i++;
-    } else {
-      bytes.push(str.charCodeAt(i));
-      i++;
+): Promise<{ changes: FileChange[]; engine?: ComparisonEngine }> {
+  for await (const event of streamChanges(oldPath, newPath)) {
+    if (event.type === "done") {
+      return { changes: event.changes ?? [], engine: event.engine };
     }
-  }
-  // Decode bytes as UTF-8
-  return Buffer.from(bytes).toString("utf-8");
-}
-
-/**
- * Strip the snapshot prefix from paths (e.g., "./2026-01-28_00:00:01/storage/..." -> "storage/...")
- */
-function stripSnapshotPrefix(path: string): string {
-  // Remove leading ./ if present
-  if (path.startsWith("./")) {
-    path = path.slice(2);
-  }
-  // Remove the snapshot folder name (first path component)
-  const slashIndex = path.indexOf("/");
-  if (slashIndex !== -1) {
-    return path.slice(slashIndex + 1);
-  }
-  return path;
-}
-
-/**
- * Parse the output of btrfs receive --dump
- */
-function parseSendDump(output: string): FileChange[] {
-  const changes: FileChange[] = [];
-  const lines = output.split("\n");
-
-  // Track orphan objects: orphan path -> original path
-  // This helps us determine if a deletion was a file or folder
-  const orphanToOriginal = new Map<string, string>();
-  // Track rmdir operations on orphan objects
-  const orphanRmdirs = new Set<string>();
-
-  // First pass: collect all orphan mappings and rmdir operations on orphans
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    const match = trimmed.match(/^(\w+)\s+(.+)$/);
-    if (!match) continue;
-
-    const [, operation, rest] = match;
-    const type = operation.toLowerCase();
-
-    if (type === "rename") {
-      const destMatch = rest.match(/^(.+?)\s+dest=(.+)$/);
-      if (destMatch) {
-        const sourcePath = extractPath(destMatch[1]);
-        const destPath = extractPath(destMatch[2]);
-        const strippedSource = stripSnapshotPrefix(sourcePath);
-        const strippedDest = stripSnapshotPrefix(destPath);
-
-        // Track renames TO orphan objects
-        if (strippedDest.match(/^o\d+-\d+-\d+(\/|$)/)) {
-          orphanToOriginal.set(strippedDest, strippedSource);
-        }
-      }
-    } else if (type === "rmdir") {
-      const rawPath = extractPath(rest);
-      const strippedPath = stripSnapshotPrefix(rawPath);
-      // Track rmdir on orphan objects
-      if (strippedPath.match(/^o\d+-\d+-\d+(\/|$)/)) {
-        orphanRmdirs.add(strippedPath);
-      }
-    }
-  }
-
-  // Second pass: process all changes with orphan knowledge
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    // Parse lines like: "write        ./snapshot/path/to/file offset=0 len=1234"
-    // or "rename       ./snapshot/old/path -> ./snapshot/new/path"
-    const match = trimmed.match(/^(\w+)\s+(.+)$/);
-    if (!match) continue;
-
-    const [, operation, rest] = match;
-    const type = operation.toLowerCase() as ChangeType;
-
-    // Valid change types (excluding utimes/chmod/chown - too noisy)
-    const validTypes: ChangeType[] = [
-      "write",
-      "rename",
-      "unlink",
-      "rmdir",
-      "mkdir",
-      "link",
-      "symlink",
-      "truncate",
-      "clone",
-    ];
-
-    if (!validTypes.includes(type)) continue;
-
-    const change: FileChange = { type, path: "" };
-
-    if (type === "rename") {
-      // Parse rename: ./snapshot/path dest=./snapshot/newpath
-      const destMatch = rest.match(/^(.+?)\s+dest=(.+)$/);
-      if (destMatch) {
-        const sourcePath = extractPath(destMatch[1]);
-        const destPath = extractPath(destMatch[2]);
-        const strippedSource = stripSnapshotPrefix(sourcePath);
-        const strippedDest = stripSnapshotPrefix(destPath);
-
-        // If renamed TO an orphan object, treat as delete
-        // Check if this orphan later receives rmdir (it's a folder) or unlink (it's a file)
-        if (strippedDest.match(/^o\d+-\d+-\d+(\/|$)/)) {
-          // If this orphan gets rmdir'd later, it's a folder deletion
-          if (orphanRmdirs.has(strippedDest)) {
-            change.type = "rmdir";
-          } else {
-            change.type = "unlink";
-          }
-          change.path = strippedSource;
-        }
-        // If renamed FROM an orphan object, treat as create (use link for files)
-        else if (strippedSource.match(/^o\d+-\d+-\d+(\/|$)/)) {
-          change.type = "link";
-          change.path = strippedDest;
-        }
-        // Normal rename
-        else {
-          change.oldPath = strippedSource;
-          change.path = strippedDest;
-        }
-      }
-    } else {
-      // Extract path (handles escaped spaces)
-      const rawPath = extractPath(rest);
-      change.path = stripSnapshotPrefix(rawPath);
-
-      // Try to extract size for write operations
-      if (type === "write") {
-        const lenMatch = rest.match(/len=(\d+)/);
-        if (lenMatch) {
-          change.size = parseInt(lenMatch[1], 10);
-        }
-      }
-    }
-
-    if (change.path) {
-      // Skip btrfs internal orphan objects (o123456-789-0 pattern)
-      // These are temporary/cleanup artifacts, not user data
-      if (change.path.match(/^o\d+-\d+-\d+(\/|$)/)) {
-        continue;
-      }
-      changes.push(change);
-    }
-  }
-
-  // Deduplicate and merge multiple writes to same file
-  const pathMap = new Map<string, FileChange>();
-  for (const change of changes) {
-    const key = `${change.type}:${change.path}`;
-    if (!pathMap.has(key)) {
-      pathMap.set(key, change);
-    } else if (change.size) {
-      // Accumulate sizes for writes
-      const existing = pathMap.get(key)!;
-      existing.size = (existing.size || 0) + change.size;
+    if (event.type === "error") {
+      console.error("Failed to get incremental changes:", event.message);
+      return { changes: [] };
     }
   }
-
-  return Array.from(pathMap.values());
+  return { changes: [] };
 }
+
+export const btrfsBackend: SnapshotBackend = {
+  name: "btrfs",
+  isBtrfs: true,
+  getSubvolumes,
+  getSnapshots,
+  getChanges,
+  streamChanges,
+  getFileDiff,
+  getDirectoryContents,
+  getFileContent,
+  createSnapshot,
+  deleteSnapshot,
+};
@@ -0,0 +1,78 @@
+import { getDB } from './db.server';
+import type { FileChange } from '~/types';
+import type { ChangeSummary } from '~/utils/changes';
+
+// Total size of cached comparisons before the least recently used are evicted
+const MAX_CACHE_BYTES = (parseInt(process.env.COMPARISON_CACHE_MAX_MB || '512', 10) || 512) * 1024 * 1024;
+
+export interface CachedComparison {
+  changes: FileChange[];
+  summary: ChangeSummary;
+}
+
+interface CacheRow {
+  changes: string;
+  summary: string;
+}
+
+/**
+ * Get a cached comparison between two snapshot UUIDs, marking it as recently used
+ */
+export function getCachedComparison(oldUuid: string, newUuid: string, metadata: boolean): CachedComparison | null {
+  const db = getDB();
+  const row = db.prepare(`
+    UPDATE comparison_cache SET last_accessed = ?
+    WHERE old_uuid = ? AND new_uuid = ? AND metadata = ?
+    RETURNING changes, summary
+  `).get(Date.now(), oldUuid, newUuid, metadata ? 1 : 0) as CacheRow | undefined;
+
+  if (!row) {
+    return null;
+  }
+
+  return { changes: JSON.parse(row.changes), summary: JSON.parse(row.summary) };
+}
+
+/**
+ * Store a comparison, then evict least recently used entries over the size limit
+ */
+export function setCachedComparison(
+  oldUuid: string,
+  newUuid: string,
+  metadata: boolean,
+  { changes, summary }: CachedComparison
+): void {
+  const changesJson = JSON.stringify(changes);
+  const summaryJson = JSON.stringify(summary);
+  const size = Buffer.byteLength(changesJson) + Buffer.byteLength(summaryJson);
+
+  // Would evict everything else and itself
+  if (size > MAX_CACHE_BYTES) {
+    return;
+  }
+
+  const db = getDB();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT OR REPLACE INTO comparison_cache (old_uuid, new_uuid, metadata, changes, summary, size, last_accessed)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(oldUuid, newUuid, metadata ? 1 : 0, changesJson, summaryJson, size, Date.now());
+
+    db.prepare(`
+      DELETE FROM comparison_cache WHERE rowid IN (
+        SELECT rowid FROM (
+          SELECT rowid, SUM(size) OVER (ORDER BY last_accessed DESC, rowid DESC) AS total
+          FROM comparison_cache
+        ) WHERE total > ?
+      )
+    `).run(MAX_CACHE_BYTES);
+  })();
+}
+
+/**
+ * Drop cached comparisons between two snapshot UUIDs (with and without metadata)
+ */
+export function deleteCachedComparison(oldUuid: string, newUuid: string): void {
+  const db = getDB();
+  db.prepare('DELETE FROM comparison_cache WHERE old_uuid = ? AND new_uuid = ?').run(oldUuid, newUuid);
+}
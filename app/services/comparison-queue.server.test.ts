@@ -0,0 +1,130 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { StreamEvent } from "./btrfs-stream.server";
+
+// Read when the queue loads
+process.env.MAX_CONCURRENT_COMPARISONS = "2";
+const { runQueued } = await import("./comparison-queue.server");
+
+/**
+ * A comparison that reports progress, then waits to be released or
+ * cancelled
+ */
+function gatedJob() {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const job = {
+    starts: 0,
+    signal: null as AbortSignal | null,
+    release,
+    async *start(signal: AbortSignal): AsyncGenerator<StreamEvent> {
+      job.starts++;
+      job.signal = signal;
+      yield { type: "progress", message: "started" };
+      await Promise.race([released, new Promise((resolve) => signal.addEventListener("abort", resolve))]);
+      if (signal.aborted) throw new Error("Comparison cancelled");
+      yield { type: "done", changes: [] };
+    },
+  };
+  return job;
+}
+
+async function collect(events: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const collected: StreamEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+async function until(condition: () => boolean) {
+  while (!condition()) await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("runQueued", () => {
+  test("shares one run between identical requests", async () => {
+    const job = gatedJob();
+    const first = collect(runQueued("shared", job.start));
+    await until(() => job.starts === 1);
+
+    const late = gatedJob();
+    const second = collect(runQueued("shared", late.start));
+    job.release();
+
+    assert.deepEqual(await first, [{ type: "progress", message: "started" }, { type: "done", changes: [] }]);
+    // The late subscriber gets the latest progress, not a run of its own
+    assert.deepEqual(await second, [{ type: "progress", message: "started" }, { type: "done", changes: [] }]);
+    assert.equal(late.starts, 0);
+  });
+
+  test("ends the subscription after the final event", async () => {
+    const job = gatedJob();
+    const events = runQueued("finishing", job.start);
+    assert.equal((await events.next()).value?.type, "progress");
+    job.release();
+    assert.equal((await events.next()).value?.type, "done");
+    assert.equal((await events.next()).done, true);
+  });
+
+  test("reports queue positions while all slots are busy", async () => {
+    const running = [gatedJob(), gatedJob()];
+    const runs = running.map((job, i) => collect(runQueued(`busy-${i}`, job.start)));
+    await until(() => running.every((job) => job.starts === 1));
+
+    const third = gatedJob();
+    const fourth = gatedJob();
+    const thirdEvents = runQueued("third", third.start);
+    const fourthEvents = runQueued("fourth", fourth.start);
+    assert.equal((await thirdEvents.next()).value?.position, 1);
+    assert.equal((await fourthEvents.next()).value?.position, 2);
+
+    running[0].release();
+    assert.equal((await thirdEvents.next()).value?.message, "started");
+    assert.equal((await fourthEvents.next()).value?.position, 1);
+    assert.equal(fourth.starts, 0);
+
+    running[1].release();
+    third.release();
+    assert.equal((await fourthEvents.next()).value?.message, "started");
+    fourth.release();
+    await Promise.all([...runs, collect(thirdEvents), collect(fourthEvents)]);
+  });
+
+  test("cancels a run once its last subscriber leaves", async () => {
+    const job = gatedJob();
+    const first = new AbortController();
+    const second = new AbortController();
+    const firstEvents = runQueued("cancelled", job.start, first.signal);
+    const secondEvents = runQueued("cancelled", job.start, second.signal);
+    await firstEvents.next();
+    await secondEvents.next();
+
+    const firstPending = firstEvents.next();
+    first.abort();
+    assert.equal((await firstPending).done, true);
+    assert.equal(job.signal?.aborted, false);
+
+    const secondPending = secondEvents.next();
+    second.abort();
+    assert.equal((await secondPending).done, true);
+    assert.equal(job.signal?.aborted, true);
+  });
+
+  test("drops a waiting run once its last subscriber leaves", async () => {
+    const running = [gatedJob(), gatedJob()];
+    const runs = running.map((job, i) => collect(runQueued(`full-${i}`, job.start)));
+    await until(() => running.every((job) => job.starts === 1));
+
+    const waiting = gatedJob();
+    const controller = new AbortController();
+    const events = runQueued("dropped", waiting.start, controller.signal);
+    assert.equal((await events.next()).value?.type, "queued");
+    const pending = events.next();
+    controller.abort();
+    assert.equal((await pending).done, true);
+
+    for (const job of running) job.release();
+    await Promise.all(runs);
+    assert.equal(waiting.starts, 0);
+  });
+});
@@ -0,0 +1,158 @@
+import type { StreamEvent } from "./btrfs-stream.server";
+
+// Maximum number of btrfs send processes running at once
+const MAX_CONCURRENT = Math.max(1, parseInt(process.env.MAX_CONCURRENT_COMPARISONS || "2", 10) || 2);
+
+interface Subscriber {
+  events: StreamEvent[]; // emitted but not yet read by this subscriber
+  wake: () => void;
+}
+
+interface Job {
+  key: string;
+  start: (signal: AbortSignal) => AsyncGenerator<StreamEvent>;
+  controller: AbortController;
+  // Latest progress, or the final done or error event, replayed to late
+  // subscribers instead of every event so far, which for a large
+  // comparison would keep every provisional change in memory
+  latest: StreamEvent | null;
+  subscribers: Set<Subscriber>;
+  running: boolean;
+  finished: boolean;
+}
+
+// In-flight jobs by key, queued or running
+const jobs = new Map<string, Job>();
+const waiting: Job[] = [];
+let active = 0;
+
+function notify(job: Job) {
+  for (const subscriber of job.subscribers) subscriber.wake();
+}
+
+function emit(job: Job, event: StreamEvent) {
+  if (event.type !== "change") job.latest = event;
+  for (const subscriber of job.subscribers) subscriber.events.push(event);
+  notify(job);
+}
+
+async function run(job: Job) {
+  try {
+    for await (const event of job.start(job.controller.signal)) {
+      emit(job, event);
+    }
+  } catch (error) {
+    emit(job, { type: "error", message: String(error) });
+  } finally {
+    job.running = false;
+    job.finished = true;
+    active--;
+    jobs.delete(job.key);
+    notify(job);
+    startNext();
+  }
+}
+
+function startNext() {
+  while (active < MAX_CONCURRENT && waiting.length > 0) {
+    const job = waiting.shift()!;
+    active++;
+    job.running = true;
+    void run(job);
+  }
+  // Everyone still waiting moved up
+  for (const job of waiting) notify(job);
+}
+
+function cancel(job: Job) {
+  const index = waiting.indexOf(job);
+  if (index !== -1) {
+    waiting.splice(index, 1);
+    job.finished = true;
+    jobs.delete(job.key);
+    startNext();
+  } else {
+    job.controller.abort();
+  }
+}
+
+/**
+ * Run a comparison through the shared queue
+ *
+ * Identical requests (same key) share one job: later subscribers get the
+ * latest progress event, then follow along live. Changes emitted before
+ * they joined are not replayed; the final "done" event carries them all.
+ * While the job waits for a free slot, subscribers get "queued" events
+ * with their position. The job is cancelled once every subscriber has
+ * gone.
+ *
+ * @param key - Identifies identical requests
+ * @param start - Produces the events once the job gets a slot
+ * @param signal - Aborts this subscription
+ */
+export async function* runQueued(
+  key: string,
+  start: (signal: AbortSignal) => AsyncGenerator<StreamEvent>,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent> {
+  let job = jobs.get(key);
+  if (!job) {
+    job = {
+      key,
+      start,
+      controller: new AbortController(),
+      latest: null,
+      subscribers: new Set(),
+      running: false,
+      finished: false,
+    };
+    jobs.set(key, job);
+    waiting.push(job);
+  }
+
+  let wake: (() => void) | null = null;
+  const onWake = () => {
+    wake?.();
+    wake = null;
+  };
+  const subscriber: Subscriber = { events: job.latest ? [job.latest] : [], wake: onWake };
+  job.subscribers.add(subscriber);
+  signal?.addEventListener("abort", onWake);
+  startNext();
+
+  let index = 0;
+  let lastPosition = 0;
+
+  try {
+    while (!signal?.aborted) {
+      if (!job.running && !job.finished) {
+        const position = waiting.indexOf(job) + 1;
+        if (position !== lastPosition) {
+          lastPosition = position;
+          yield { type: "queued", position, message: `Waiting for another comparison to finish (position ${position} in queue)` };
+          continue;
+        }
+      }
+
+      if (index < subscriber.events.length) {
+        yield subscriber.events[index++];
+        continue;
+      }
+      // Everything read, so start the buffer over
+      subscriber.events.length = 0;
+      index = 0;
+      if (job.finished) return;
+
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    job.subscribers.delete(subscriber);
+    signal?.removeEventListener("abort", onWake);
+    // Nobody is listening any more
+    if (job.subscribers.size === 0 && !job.finished) {
+      cancel(job);
+    }
+  }
+}
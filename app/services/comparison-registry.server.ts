@@ -0,0 +1,50 @@
+// Registry of comparisons with a running `btrfs send` process
+
+export interface RunningComparison {
+  id: number;
+  oldSnapshotPath: string;
+  newSnapshotPath: string;
+  metadata: boolean;
+  pid?: number;
+  startedAt: Date;
+  commands: number; // send commands decoded so far
+}
+
+const running = new Map<number, { comparison: RunningComparison; controller: AbortController }>();
+let nextId = 1;
+
+/**
+ * Register a running comparison; aborting the controller cancels it
+ */
+export function registerComparison(
+  details: Pick<RunningComparison, "oldSnapshotPath" | "newSnapshotPath" | "metadata" | "pid">,
+  controller: AbortController
+): RunningComparison {
+  const comparison: RunningComparison = {
+    id: nextId++,
+    ...details,
+    startedAt: new Date(),
+    commands: 0,
+  };
+  running.set(comparison.id, { comparison, controller });
+  return comparison;
+}
+
+export function unregisterComparison(id: number): void {
+  running.delete(id);
+}
+
+export function listRunningComparisons(): RunningComparison[] {
+  return Array.from(running.values(), ({ comparison }) => ({ ...comparison }));
+}
+
+/**
+ * Cancel a running comparison, killing its btrfs send process
+ * Returns false if no comparison with this id is running
+ */
+export function cancelComparison(id: number): boolean {
+  const entry = running.get(id);
+  if (!entry) return false;
+  entry.controller.abort();
+  return true;
+}
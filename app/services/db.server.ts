@@ -43,6 +43,12 @@ function initSchema(db: Database.Database) {
       UNIQUE(timeline_id, path)
     );
 
+    -- Group hardlinked names that share an inode
+    CREATE TABLE IF NOT EXISTS file_inode_groups (
+      timeline_id INTEGER PRIMARY KEY REFERENCES file_timelines(id) ON DELETE CASCADE,
+      group_id INTEGER NOT NULL
+    );
+
     -- Individual change events at each snapshot
     CREATE TABLE IF NOT EXISTS file_history_entries (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -67,12 +73,64 @@ function initSchema(db: Database.Database) {
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
+    -- Snapshots whose changes are in the index, and the snapshot they were
+    -- diffed against, so a chain of them can stand in for btrfs send
+    CREATE TABLE IF NOT EXISTS indexed_snapshots (
+      subvolume_path TEXT NOT NULL,
+      snapshot_path TEXT NOT NULL,
+      snapshot_created_at DATETIME NOT NULL,
+      previous_snapshot_path TEXT,
+      PRIMARY KEY (subvolume_path, snapshot_path)
+    );
+
+    -- Send streams and dump captures imported for offline analysis
+    CREATE TABLE IF NOT EXISTS imported_comparisons (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      format TEXT NOT NULL CHECK(format IN ('send-stream', 'dump')),
+      snapshot_name TEXT,
+      snapshot_uuid TEXT,
+      parent_uuid TEXT,
+      changes TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Results of btrfs send comparisons; snapshots are immutable so a UUID
+    -- pair always has the same changes. last_accessed is in ms for LRU order
+    CREATE TABLE IF NOT EXISTS comparison_cache (
+      old_uuid TEXT NOT NULL,
+      new_uuid TEXT NOT NULL,
+      metadata INTEGER NOT NULL DEFAULT 0,
+      changes TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_accessed INTEGER NOT NULL,
+      PRIMARY KEY (old_uuid, new_uuid, metadata)
+    );
+
+    -- Snapshot management actions taken from the UI. action is not
+    -- constrained so new kinds of action don't need a migration
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      subvolume_path TEXT NOT NULL,
+      target TEXT NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('success', 'error')),
+      message TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
     -- Performance indices
     CREATE INDEX IF NOT EXISTS idx_timeline_path ON file_timelines(current_path);
     CREATE INDEX IF NOT EXISTS idx_timeline_subvolume ON file_timelines(subvolume_path);
     CREATE INDEX IF NOT EXISTS idx_aliases_path ON file_aliases(path);
+    CREATE INDEX IF NOT EXISTS idx_inode_groups_group ON file_inode_groups(group_id);
     CREATE INDEX IF NOT EXISTS idx_entries_timeline ON file_history_entries(timeline_id);
     CREATE INDEX IF NOT EXISTS idx_entries_snapshot ON file_history_entries(snapshot_path);
+    CREATE INDEX IF NOT EXISTS idx_comparison_cache_accessed ON comparison_cache(last_accessed);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_subvolume ON audit_log(subvolume_path);
   `);
 }
 
@@ -90,8 +148,13 @@ export function resetDB() {
     db.exec(`
       DELETE FROM file_history_entries;
       DELETE FROM file_aliases;
+      DELETE FROM file_inode_groups;
       DELETE FROM file_timelines;
       DELETE FROM index_metadata;
+      DELETE FROM indexed_snapshots;
+      DELETE FROM imported_comparisons;
+      DELETE FROM comparison_cache;
+      DELETE FROM audit_log;
     `);
   }
 }
@@ -0,0 +1,140 @@
+import { readdir, stat } from "fs/promises";
+import { join } from "path";
+import type {
+  Subvolume,
+  Snapshot,
+  SnapshotComparison,
+} from "~/types";
+import type { SnapshotBackend } from "./backend.server";
+import { streamChanges as streamSnapshotChanges, type StreamEvent, type StreamOptions } from "./btrfs-stream.server";
+import { getChangesFromIndex } from "./history-compare.server";
+import { parseNameDate } from "./snapshot-layout.server";
+import { getFileDiff } from "./diff.server";
+import { getDirectoryContents, getFileContent } from "./file-listing.server";
+import { summarizeChanges } from "~/utils/changes";
+
+const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
+// Backup sets, each a directory of dated snapshot directories
+// (e.g., "/backups/rsnapshot,/mnt/restic/snapshots")
+const SNAPSHOT_DIRS = (process.env.SNAPSHOT_DIRS || "")
+  .split(",")
+  .map((dir) => dir.trim().replace(/\/+$/, ""))
+  .filter(Boolean);
+
+async function getSubvolumes(): Promise<Subvolume[]> {
+  const subvolumes: Subvolume[] = [];
+
+  for (const [i, dir] of SNAPSHOT_DIRS.entries()) {
+    try {
+      const stats = await stat(join(BTRFS_ROOT, dir));
+      subvolumes.push({
+        id: i + 1,
+        path: dir,
+        parentId: null,
+        uuid: "",
+        parentUuid: null,
+        receivedUuid: null,
+        createdAt: stats.birthtime.getTime() > 0 ? stats.birthtime : stats.mtime,
+        isSnapshot: false,
+      });
+    } catch {
+      console.error(`Snapshot directory not found: ${dir}`);
+    }
+  }
+
+  return subvolumes;
+}
+
+/**
+ * List the snapshot directories of a backup set, oldest first
+ */
+async function getSnapshots(subvolumePath: string): Promise<Snapshot[]> {
+  const entries = await readdir(join(BTRFS_ROOT, subvolumePath), { withFileTypes: true });
+  const snapshots: Snapshot[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+    const path = `${subvolumePath}/${entry.name}`;
+    const stats = await stat(join(BTRFS_ROOT, path));
+
+    snapshots.push({
+      id: Number(stats.ino),
+      path,
+      parentId: null,
+      uuid: "",
+      parentUuid: null,
+      receivedUuid: null,
+      // Names without a date (rsnapshot's daily.0) use the directory mtime
+      createdAt: parseNameDate(entry.name) ?? stats.mtime,
+      isSnapshot: true,
+      sourceSubvolume: subvolumePath,
+    });
+  }
+
+  snapshots.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  return snapshots;
+}
+
+/**
+ * Stream changes between two snapshot directories
+ * Composed from the history index when it covers the range, otherwise
+ * by walking both trees
+ */
+async function* streamChanges(
+  oldSnapshotPath: string,
+  newSnapshotPath: string,
+  options: StreamOptions = {}
+): AsyncGenerator<StreamEvent> {
+  if (!options.engine) {
+    const indexed = getChangesFromIndex(oldSnapshotPath, newSnapshotPath);
+    if (indexed) {
+      const summary = summarizeChanges(indexed);
+      yield { type: "done", message: `Composed from history index. Found ${indexed.length} changes.`, summary, changes: indexed, engine: "history-index" };
+      return;
+    }
+  }
+
+  yield* streamSnapshotChanges(oldSnapshotPath, newSnapshotPath, { ...options, metadata: false, engine: "tree-walk" });
+}
+
+async function getChanges(
+  oldSnapshotPath: string,
+  newSnapshotPath: string
+): Promise<SnapshotComparison> {
+  const parent = (path: string) => path.slice(0, path.lastIndexOf("/"));
+  const [oldSnapshot, newSnapshot] = await Promise.all([oldSnapshotPath, newSnapshotPath].map(
+    async (path) => (await getSnapshots(parent(path))).find((s) => s.path === path)
+  ));
+
+  if (!oldSnapshot || !newSnapshot) {
+    throw new Error("Snapshot not found");
+  }
+
+  for await (const event of streamChanges(oldSnapshotPath, newSnapshotPath)) {
+    if (event.type === "done") {
+      const changes = event.changes ?? [];
+      return { oldSnapshot, newSnapshot, engine: event.engine, changes, summary: summarizeChanges(changes) };
+    }
+    if (event.type === "error") {
+      throw new Error(event.message);
+    }
+  }
+  throw new Error("Comparison ended without a result");
+}
+
+/**
+ * Plain directories as snapshots: rsnapshot, rsync --link-dest or restic
+ * mounts. Each directory in SNAPSHOT_DIRS is a backup set listed like a
+ * subvolume, and its subdirectories are the snapshots.
+ */
+export const directoryBackend: SnapshotBackend = {
+  name: "directory",
+  isBtrfs: false,
+  getSubvolumes,
+  getSnapshots,
+  getChanges,
+  streamChanges,
+  getFileDiff,
+  getDirectoryContents,
+  getFileContent,
+};
@@ -0,0 +1,220 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { assertKnownSnapshot, getBackend, getDirectoryContents, getFileContent } from './index.server';
+import { resolveFullPath } from './file-listing.server';
+import { ForbiddenError, NotFoundError } from './errors.server';
+import { tarArchive, tarGzArchive, zipArchive, type ArchiveEntry } from './archive.server';
+import { getSnapshotName } from '~/utils/btrfs';
+import type { ArchiveFormat } from '~/utils/download';
+
+export interface DownloadInfo {
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  modifiedAt: Date;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.conf': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.sh': 'text/x-shellscript',
+  '.py': 'text/x-python',
+  '.yaml': 'text/yaml',
+  '.yml': 'text/yaml',
+  '.toml': 'text/x-toml',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.xz': 'application/x-xz',
+  '.zst': 'application/zstd',
+  '.7z': 'application/x-7z-compressed',
+};
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  'tar': 'application/x-tar',
+  'tar.gz': 'application/gzip',
+  'zip': 'application/zip',
+};
+
+export function getContentType(name: string): string {
+  return CONTENT_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Parse a single-range Range header against a file size
+ * Returns null to send the whole file (no header, or several ranges),
+ * or 'unsatisfiable' when the range lies outside the file
+ */
+export function parseRange(header: string | null, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // bytes=-N is the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+function normalize(filePath: string): string {
+  return path.posix.normalize(`/${filePath}`);
+}
+
+/**
+ * Resolve a path in a snapshot, following symlinks only within it
+ */
+async function resolveInSnapshot(snapshotPath: string, filePath: string): Promise<string> {
+  const fullPath = resolveFullPath(path.posix.join(snapshotPath, normalize(filePath)));
+  try {
+    const [realPath, realRoot] = await Promise.all([
+      fs.realpath(fullPath),
+      fs.realpath(resolveFullPath(snapshotPath)),
+    ]);
+    if (realPath !== realRoot && !realPath.startsWith(`${realRoot}/`)) {
+      throw new ForbiddenError(`Permission denied: ${snapshotPath}${normalize(filePath)} links outside the snapshot`);
+    }
+    return realPath;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new NotFoundError(`File not found: ${snapshotPath}${normalize(filePath)}`);
+    }
+    throw error;
+  }
+}
+
+export async function getDownloadInfo(snapshotPath: string, filePath: string): Promise<DownloadInfo> {
+  await assertKnownSnapshot(snapshotPath);
+  const normalizedFilePath = normalize(filePath);
+  const name = path.posix.basename(normalizedFilePath) || getSnapshotName(snapshotPath);
+
+  if (getBackend().name === 'mock') {
+    if (normalizedFilePath === '/') {
+      return { name, isDirectory: true, size: 0, modifiedAt: new Date() };
+    }
+    const entries = await getDirectoryContents(snapshotPath, path.posix.dirname(normalizedFilePath), false);
+    const entry = entries.find(e => e.path === normalizedFilePath);
+    if (!entry) {
+      throw new NotFoundError(`File not found: ${snapshotPath}${normalizedFilePath}`);
+    }
+    const size = entry.isDirectory ? 0 : (await readMockFile(snapshotPath, normalizedFilePath)).length;
+    return { name, isDirectory: entry.isDirectory, size, modifiedAt: entry.modifiedAt ?? new Date() };
+  }
+
+  const stats = await fs.stat(await resolveInSnapshot(snapshotPath, normalizedFilePath));
+  return { name, isDirectory: stats.isDirectory(), size: stats.size, modifiedAt: stats.mtime };
+}
+
+// Mock files only exist as text; binary ones download empty
+async function readMockFile(snapshotPath: string, filePath: string): Promise<Buffer> {
+  return Buffer.from((await getFileContent(snapshotPath, filePath)).content);
+}
+
+/**
+ * Stream a file, or the inclusive byte range of it
+ */
+export async function streamFile(
+  snapshotPath: string,
+  filePath: string,
+  range?: { start: number; end: number }
+): Promise<AsyncIterable<Uint8Array>> {
+  await assertKnownSnapshot(snapshotPath);
+  if (getBackend().name === 'mock') {
+    const data = await readMockFile(snapshotPath, normalize(filePath));
+    return (async function* () {
+      yield range ? data.subarray(range.start, range.end + 1) : data;
+    })();
+  }
+  return createReadStream(await resolveInSnapshot(snapshotPath, filePath), range);
+}
+
+async function* walkTree(fullPath: string, archivePath: string): AsyncGenerator<ArchiveEntry> {
+  const stats = await fs.lstat(fullPath);
+  const base = { path: archivePath, mode: stats.mode, mtime: stats.mtime, size: 0 };
+
+  if (stats.isSymbolicLink()) {
+    yield { ...base, type: 'symlink', linkTarget: await fs.readlink(fullPath) };
+  } else if (stats.isDirectory()) {
+    yield { ...base, type: 'directory' };
+    const names = (await fs.readdir(fullPath)).sort();
+    for (const name of names) {
+      yield* walkTree(path.join(fullPath, name), `${archivePath}/${name}`);
+    }
+  } else if (stats.isFile()) {
+    yield { ...base, type: 'file', size: stats.size, open: () => createReadStream(fullPath) };
+  }
+  // Sockets, fifos and devices are left out
+}
+
+async function* walkMockTree(snapshotPath: string, dirPath: string, archivePath: string): AsyncGenerator<ArchiveEntry> {
+  yield { path: archivePath, type: 'directory', mode: 0o755, mtime: new Date(), size: 0 };
+  for (const entry of await getDirectoryContents(snapshotPath, dirPath, false)) {
+    const childPath = `${archivePath}/${entry.name}`;
+    if (entry.isDirectory) {
+      yield* walkMockTree(snapshotPath, entry.path, childPath);
+    } else {
+      const data = await readMockFile(snapshotPath, entry.path);
+      yield {
+        path: childPath,
+        type: 'file',
+        mode: 0o644,
+        mtime: entry.modifiedAt ?? new Date(),
+        size: data.length,
+        open: async function* () { yield data; },
+      };
+    }
+  }
+}
+
+/**
+ * Stream a directory as an archive, built while it is read
+ * Everything is inside a top-level directory named after it
+ */
+export async function streamDirectory(
+  snapshotPath: string,
+  dirPath: string,
+  format: ArchiveFormat
+): Promise<AsyncIterable<Uint8Array>> {
+  const { name } = await getDownloadInfo(snapshotPath, dirPath);
+  const entries = getBackend().name === 'mock'
+    ? walkMockTree(snapshotPath, normalize(dirPath), name)
+    : walkTree(await resolveInSnapshot(snapshotPath, dirPath), name);
+
+  switch (format) {
+    case 'tar':
+      return tarArchive(entries);
+    case 'tar.gz':
+      return tarGzArchive(entries);
+    case 'zip':
+      return zipArchive(entries);
+  }
+}
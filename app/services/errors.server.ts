@@ -0,0 +1,28 @@
+/**
+ * An error a route should answer with a given status code
+ * Routes check the class instead of matching on the message
+ */
+export class ServiceError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InvalidRequestError extends ServiceError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+export class ForbiddenError extends ServiceError {
+  constructor(message: string) {
+    super(message, 403);
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string) {
+    super(message, 404);
+  }
+}
@@ -1,7 +1,6 @@
 import { getDB } from './db.server';
-import { getSnapshots } from './index.server';
-import { streamChanges } from './btrfs-stream.server';
-import type { FileTimeline, FileHistoryEntry, IndexStatus } from '~/types';
+import { getSnapshots, streamChanges } from './index.server';
+import type { FileChange, FileTimeline, FileHistoryEntry, IndexStatus } from '~/types';
 
 // Index metadata management
 
@@ -58,6 +57,18 @@ function updateIndexMetadata(
   `).run(subvolumePath, lastIndexedSnapshot, indexed, total, status);
 }
 
+function recordIndexedSnapshot(
+  subvolumePath: string,
+  snapshot: { path: string; createdAt: Date },
+  previous: { path: string } | null
+) {
+  const db = getDB();
+  db.prepare(`
+    INSERT OR REPLACE INTO indexed_snapshots (subvolume_path, snapshot_path, snapshot_created_at, previous_snapshot_path)
+    VALUES (?, ?, ?, ?)
+  `).run(subvolumePath, snapshot.path, snapshot.createdAt.toISOString(), previous?.path ?? null);
+}
+
 // File timeline management
 
 function createOrUpdateFileTimeline(
@@ -118,6 +129,39 @@ function addHistoryEntry(
   );
 }
 
+/**
+ * Put a hardlinked name in the same inode group as the name it links to
+ */
+function addToInodeGroup(
+  subvolumePath: string,
+  timelineId: number,
+  linkedTo: string,
+  snapshot: { createdAt: Date }
+) {
+  const db = getDB();
+
+  // The other name may predate the index, give it a timeline to hang the group on
+  const targetId = createOrUpdateFileTimeline(subvolumePath, linkedTo, 'active', snapshot.createdAt, snapshot.createdAt);
+  if (targetId === timelineId) return;
+
+  const groupOf = db.prepare('SELECT group_id FROM file_inode_groups WHERE timeline_id = ?');
+  const targetGroup = groupOf.get(targetId) as { group_id: number } | undefined;
+  const ownGroup = groupOf.get(timelineId) as { group_id: number } | undefined;
+  const groupId = targetGroup?.group_id ?? ownGroup?.group_id ?? targetId;
+
+  const setGroup = db.prepare(`
+    INSERT INTO file_inode_groups (timeline_id, group_id) VALUES (?, ?)
+    ON CONFLICT(timeline_id) DO UPDATE SET group_id = excluded.group_id
+  `);
+  setGroup.run(targetId, groupId);
+  setGroup.run(timelineId, groupId);
+
+  // Both names already had groups: merge them
+  if (ownGroup && ownGroup.group_id !== groupId) {
+    db.prepare('UPDATE file_inode_groups SET group_id = ? WHERE group_id = ?').run(groupId, ownGroup.group_id);
+  }
+}
+
 // Index building
 
 export async function buildFileIndex(
@@ -140,11 +184,14 @@ export async function buildFileIndex(
 
     console.log(`Indexing snapshot ${i + 1}/${snapshots.length}: ${current.path}`);
 
+    let indexed = !previous;
     if (previous) {
-      // Get incremental changes between snapshots
-      for await (const event of streamChanges(previous.path, current.path)) {
-        if (event.type === 'change' && event.data) {
-          await processFileChange(subvolumePath, event.data, current);
+      // Get the net changes between snapshots
+      // Never composed from the index, the index is what we are building
+      for await (const event of streamChanges(previous.path, current.path, { engine: 'btrfs-send' })) {
+        if (event.type === 'done' && event.changes) {
+          await processSnapshotChanges(subvolumePath, event.changes, current);
+          indexed = true;
         }
       }
     } else {
@@ -153,6 +200,11 @@ export async function buildFileIndex(
       console.log('First snapshot - skipping initial full index');
     }
 
+    // Comparisons can be composed from here on (a failed snapshot breaks the chain)
+    if (indexed) {
+      recordIndexedSnapshot(subvolumePath, current, previous);
+    }
+
     // Mark snapshot as indexed
     const status = i === snapshots.length - 1 ? 'complete' : 'building';
     updateIndexMetadata(subvolumePath, current.path, i + 1, snapshots.length, status);
@@ -164,13 +216,181 @@ export async function buildFileIndex(
   }
 }
 
-async function processFileChange(
+/**
+ * Record the net changes of one snapshot
+ * Renames are applied first so changes inside a moved directory land on
+ * the moved timelines
+ */
+async function processSnapshotChanges(
   subvolumePath: string,
-  change: { type: string; path: string; oldPath?: string; size?: number },
+  changes: FileChange[],
   snapshot: { path: string; createdAt: Date }
 ) {
+  const renames = changes.filter(c => c.type === 'rename' && c.oldPath);
+  applyRenames(subvolumePath, renames, snapshot);
+
+  for (const change of changes) {
+    if (change.type === 'rename' && change.oldPath) continue;
+    await processFileChange(subvolumePath, change, snapshot);
+  }
+}
+
+/**
+ * Fold one timeline into another when a rename lands on a path that
+ * still has a stale timeline (e.g. a deleted file)
+ */
+function mergeTimeline(targetId: number, sourceId: number) {
+  const db = getDB();
+  db.prepare('UPDATE file_history_entries SET timeline_id = ? WHERE timeline_id = ?').run(targetId, sourceId);
+  db.prepare(`
+    INSERT OR IGNORE INTO file_aliases (timeline_id, path)
+    SELECT ?, path FROM file_aliases WHERE timeline_id = ?
+  `).run(targetId, sourceId);
+  db.prepare(`
+    INSERT OR IGNORE INTO file_inode_groups (timeline_id, group_id)
+    SELECT ?, group_id FROM file_inode_groups WHERE timeline_id = ?
+  `).run(targetId, sourceId);
+  db.prepare(`
+    UPDATE file_timelines
+    SET first_seen = MIN(first_seen, (SELECT first_seen FROM file_timelines WHERE id = ?))
+    WHERE id = ?
+  `).run(sourceId, targetId);
+  db.prepare('DELETE FROM file_timelines WHERE id = ?').run(sourceId);
+}
+
+/**
+ * Move timelines for renamed paths, including every timeline below a
+ * renamed directory, so files keep one history across parent moves
+ */
+function applyRenames(
+  subvolumePath: string,
+  renames: FileChange[],
+  snapshot: { path: string; createdAt: Date }
+) {
+  if (renames.length === 0) return;
   const db = getDB();
 
+  // Deepest first, so a renamed child moves before its renamed parent
+  const depth = (path: string) => path.split('/').length;
+  const ordered = [...renames].sort((a, b) => depth(b.oldPath!) - depth(a.oldPath!));
+
+  const findTimeline = db.prepare(`
+    SELECT ft.id FROM file_timelines ft
+    LEFT JOIN file_aliases fa ON fa.timeline_id = ft.id
+    WHERE ft.subvolume_path = ? AND (ft.current_path = ? OR fa.path = ?)
+    ORDER BY ft.current_path = ? DESC
+    LIMIT 1
+  `);
+  const findDescendants = db.prepare(`
+    SELECT ft.id, ft.current_path,
+      (SELECT is_directory FROM file_history_entries
+       WHERE timeline_id = ft.id ORDER BY id DESC LIMIT 1) AS is_directory
+    FROM file_timelines ft
+    WHERE ft.subvolume_path = ? AND substr(ft.current_path, 1, ?) = ?
+  `);
+  const findByPath = db.prepare('SELECT id FROM file_timelines WHERE subvolume_path = ? AND current_path = ?');
+  const setPath = db.prepare('UPDATE file_timelines SET current_path = ? WHERE id = ?');
+
+  const moves: Array<{
+    id: number;
+    fromPath: string;
+    toPath: string;
+    size?: number;
+    isDirectory: boolean;
+  }> = [];
+  const untracked: FileChange[] = [];
+
+  db.transaction(() => {
+    // Park moved timelines on temporary paths first, so swapped names
+    // don't collide with each other
+    ordered.forEach((rename, i) => {
+      const oldPath = rename.oldPath!;
+      const parking = `\0rename-${i}`;
+      const prefix = `${oldPath}/`;
+      const descendants = findDescendants.all(subvolumePath, prefix.length, prefix) as Array<{
+        id: number;
+        current_path: string;
+        is_directory: number | null;
+      }>;
+
+      const timeline = findTimeline.get(subvolumePath, oldPath, oldPath, oldPath) as { id: number } | undefined;
+      if (timeline) {
+        setPath.run(parking, timeline.id);
+        moves.push({
+          id: timeline.id,
+          fromPath: oldPath,
+          toPath: rename.path,
+          size: rename.size,
+          isDirectory: descendants.length > 0
+        });
+      } else {
+        untracked.push(rename);
+      }
+
+      for (const descendant of descendants) {
+        const rest = descendant.current_path.slice(oldPath.length);
+        setPath.run(`${parking}${rest}`, descendant.id);
+        moves.push({
+          id: descendant.id,
+          fromPath: descendant.current_path,
+          toPath: `${rename.path}${rest}`,
+          isDirectory: descendant.is_directory === 1
+        });
+      }
+    });
+
+    for (const move of moves) {
+      const occupant = findByPath.get(subvolumePath, move.toPath) as { id: number } | undefined;
+      if (occupant && occupant.id !== move.id) {
+        mergeTimeline(move.id, occupant.id);
+      }
+
+      db.prepare(`
+        UPDATE file_timelines
+        SET current_path = ?, status = 'active', last_seen = ?
+        WHERE id = ?
+      `).run(move.toPath, snapshot.createdAt.toISOString(), move.id);
+
+      addFileAlias(move.id, move.fromPath);
+      addHistoryEntry(
+        move.id,
+        snapshot.path,
+        snapshot.createdAt,
+        move.toPath,
+        'renamed',
+        move.fromPath,
+        move.size,
+        move.isDirectory
+      );
+    }
+  })();
+
+  // Renamed paths the index has not seen before start a new timeline
+  for (const rename of untracked) {
+    const timelineId = createOrUpdateFileTimeline(
+      subvolumePath,
+      rename.path,
+      'active',
+      snapshot.createdAt,
+      snapshot.createdAt
+    );
+    addHistoryEntry(
+      timelineId,
+      snapshot.path,
+      snapshot.createdAt,
+      rename.path,
+      'renamed',
+      rename.oldPath,
+      rename.size
+    );
+  }
+}
+
+async function processFileChange(
+  subvolumePath: string,
+  change: { type: string; path: string; oldPath?: string; size?: number; linkedTo?: string },
+  snapshot: { path: string; createdAt: Date }
+) {
   // Determine change type for history
   let historyChangeType: 'created' | 'modified' | 'deleted' | 'renamed';
   let targetPath = change.path;
@@ -185,6 +405,7 @@ async function processFileChange(
     case 'write':
     case 'truncate':
     case 'clone':
+    case 'typechange':
       historyChangeType = 'modified';
       break;
     case 'unlink':
@@ -204,42 +425,6 @@ async function processFileChange(
   // Find or create timeline for this file
   const status = historyChangeType === 'deleted' ? 'deleted' : 'active';
 
-  // For renames, we need to update the timeline's current_path
-  if (historyChangeType === 'renamed' && previousPath) {
-    // Find existing timeline by old path or any alias
-    const existingTimeline = db.prepare(`
-      SELECT ft.* FROM file_timelines ft
-      LEFT JOIN file_aliases fa ON fa.timeline_id = ft.id
-      WHERE ft.subvolume_path = ? AND (ft.current_path = ? OR fa.path = ?)
-      LIMIT 1
-    `).get(subvolumePath, previousPath, previousPath) as { id: number; current_path: string } | undefined;
-
-    if (existingTimeline) {
-      // Update existing timeline with new path
-      db.prepare(`
-        UPDATE file_timelines
-        SET current_path = ?, last_seen = ?
-        WHERE id = ?
-      `).run(targetPath, snapshot.createdAt.toISOString(), existingTimeline.id);
-
-      // Add old path as alias
-      addFileAlias(existingTimeline.id, previousPath);
-
-      // Add history entry
-      addHistoryEntry(
-        existingTimeline.id,
-        snapshot.path,
-        snapshot.createdAt,
-        targetPath,
-        historyChangeType,
-        previousPath,
-        change.size,
-        isDirectory
-      );
-      return;
-    }
-  }
-
   // Create or update timeline
   const timelineId = createOrUpdateFileTimeline(
     subvolumePath,
@@ -260,6 +445,10 @@ async function processFileChange(
     change.size,
     isDirectory
   );
+
+  if (change.linkedTo) {
+    addToInodeGroup(subvolumePath, timelineId, change.linkedTo, snapshot);
+  }
 }
 
 // Force rebuild
@@ -280,6 +469,7 @@ export async function rebuildIndex(subvolumePath: string): Promise<void> {
 
   db.prepare('DELETE FROM file_timelines WHERE subvolume_path = ?').run(subvolumePath);
   db.prepare('DELETE FROM index_metadata WHERE subvolume_path = ?').run(subvolumePath);
+  db.prepare('DELETE FROM indexed_snapshots WHERE subvolume_path = ?').run(subvolumePath);
 
   // Rebuild from scratch
   await buildFileIndex(subvolumePath, { force: true });
@@ -308,13 +498,15 @@ export async function getFileHistory(
 ): Promise<FileTimeline | null> {
   const db = getDB();
 
-  // Find timeline by current path or any alias
+  // Find timeline by current path or any alias, preferring the file
+  // that has the path now over one that had it in the past
   const timeline = db.prepare(`
     SELECT DISTINCT ft.* FROM file_timelines ft
     LEFT JOIN file_aliases fa ON fa.timeline_id = ft.id
     WHERE ft.subvolume_path = ? AND (ft.current_path = ? OR fa.path = ?)
+    ORDER BY ft.current_path = ? DESC
     LIMIT 1
-  `).get(subvolumePath, filePath, filePath) as {
+  `).get(subvolumePath, filePath, filePath, filePath) as {
     id: number;
     current_path: string;
     status: 'active' | 'deleted';
@@ -331,6 +523,15 @@ export async function getFileHistory(
     SELECT path FROM file_aliases WHERE timeline_id = ?
   `).all(timeline.id) as { path: string }[];
 
+  // Other names of the same inode
+  const hardlinks = db.prepare(`
+    SELECT ft.current_path FROM file_inode_groups own
+    JOIN file_inode_groups other ON other.group_id = own.group_id AND other.timeline_id != own.timeline_id
+    JOIN file_timelines ft ON ft.id = other.timeline_id
+    WHERE own.timeline_id = ? AND ft.status = 'active'
+    ORDER BY ft.current_path
+  `).all(timeline.id) as { current_path: string }[];
+
   // Get history entries
   const entries = db.prepare(`
     SELECT * FROM file_history_entries
@@ -348,7 +549,8 @@ export async function getFileHistory(
 
   return {
     currentPath: timeline.current_path,
-    aliases: [timeline.current_path, ...aliases.map(a => a.path)],
+    aliases: [timeline.current_path, ...aliases.map(a => a.path).filter(p => p !== timeline.current_path)],
+    hardlinks: hardlinks.map(h => h.current_path),
     history: entries.map(e => ({
       snapshotPath: e.snapshot_path,
       snapshotCreatedAt: new Date(e.snapshot_created_at),
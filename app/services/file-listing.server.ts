@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { InvalidRequestError } from './errors.server';
 import type { DirectoryEntry, FileContent } from '~/types';
 
 const execFileAsync = promisify(execFile);
@@ -55,6 +56,18 @@ function setInCache<T>(cache: Map<string, CacheEntry<T>>, key: string, value: T)
   cache.set(key, { value, timestamp: Date.now() });
 }
 
+/**
+ * Resolve a path relative to BTRFS_ROOT, refusing ones that escape it
+ */
+export function resolveFullPath(relativePath: string): string {
+  const root = path.resolve(BTRFS_ROOT);
+  const fullPath = path.resolve(root, `.${path.posix.normalize(`/${relativePath}`)}`);
+  if (fullPath !== root && !fullPath.startsWith(root.endsWith('/') ? root : `${root}/`)) {
+    throw new InvalidRequestError(`Invalid path: ${relativePath}`);
+  }
+  return fullPath;
+}
+
 /**
  * Calculate directory size using du -sb command
  * Returns size in bytes
@@ -0,0 +1,86 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'history-compare-'));
+process.env.FILE_HISTORY_DB = path.join(tmp, 'file-history.db');
+
+// The database path is read when db.server loads
+const { getDB } = await import('./db.server');
+const { getChangesFromIndex } = await import('./history-compare.server');
+
+after(() => {
+  getDB().close();
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+const SUBVOLUME = '/@home';
+const SNAPSHOTS = ['/.snapshots/home/1', '/.snapshots/home/2', '/.snapshots/home/3', '/.snapshots/home/4'];
+const createdAt = (snapshotPath: string) => new Date(Date.UTC(2026, 0, Number(path.basename(snapshotPath)))).toISOString();
+
+function indexSnapshots() {
+  const db = getDB();
+  SNAPSHOTS.forEach((snapshotPath, i) => {
+    db.prepare(`
+      INSERT INTO indexed_snapshots (subvolume_path, snapshot_path, snapshot_created_at, previous_snapshot_path)
+      VALUES (?, ?, ?, ?)
+    `).run(SUBVOLUME, snapshotPath, createdAt(snapshotPath), SNAPSHOTS[i - 1] ?? null);
+  });
+}
+
+type Step = [snapshot: number, changeType: 'created' | 'modified' | 'deleted' | 'renamed', path: string, size?: number, previousPath?: string];
+
+function addTimeline(currentPath: string, steps: Step[]) {
+  const db = getDB();
+  const { lastInsertRowid: timelineId } = db.prepare(`
+    INSERT INTO file_timelines (subvolume_path, current_path, status, first_seen, last_seen)
+    VALUES (?, ?, 'active', ?, ?)
+  `).run(SUBVOLUME, currentPath, createdAt(SNAPSHOTS[0]), createdAt(SNAPSHOTS[3]));
+
+  for (const [snapshot, changeType, filePath, size, previousPath] of steps) {
+    const snapshotPath = SNAPSHOTS[snapshot - 1];
+    db.prepare(`
+      INSERT INTO file_history_entries (
+        timeline_id, snapshot_path, snapshot_created_at, path,
+        change_type, previous_path, size, is_directory
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0)
+    `).run(timelineId, snapshotPath, createdAt(snapshotPath), filePath, changeType, previousPath ?? null, size ?? null);
+  }
+}
+
+indexSnapshots();
+// Snapshot 1 is the base of the ranges compared below, so its step is left out
+addTimeline('/big.bin', [[1, 'modified', '/big.bin', 999], [2, 'modified', '/big.bin', 100], [3, 'modified', '/big.bin', 100]]);
+addTimeline('/new.txt', [[2, 'created', '/new.txt', 10], [4, 'modified', '/new.txt', 4]]);
+addTimeline('/b.txt', [[3, 'renamed', '/b.txt', undefined, '/a.txt'], [4, 'modified', '/b.txt', 5]]);
+addTimeline('/tmp.txt', [[2, 'created', '/tmp.txt', 3], [3, 'deleted', '/tmp.txt']]);
+addTimeline('/old.txt', [[4, 'deleted', '/old.txt']]);
+
+test('composes the changes of several indexed steps', () => {
+  const changes = getChangesFromIndex(SNAPSHOTS[0], SNAPSHOTS[3]);
+
+  assert.deepEqual(changes?.sort((a, b) => a.path.localeCompare(b.path)), [
+    { type: 'rename', path: '/b.txt', oldPath: '/a.txt', size: 5 },
+    // Rewritten in two steps, not counted twice
+    { type: 'write', path: '/big.bin', size: 100 },
+    { type: 'link', path: '/new.txt', size: 10 },
+    { type: 'unlink', path: '/old.txt' },
+  ]);
+});
+
+test('covers only the steps in the range', () => {
+  const changes = getChangesFromIndex(SNAPSHOTS[1], SNAPSHOTS[2]);
+
+  assert.deepEqual(changes?.sort((a, b) => a.path.localeCompare(b.path)), [
+    { type: 'rename', path: '/b.txt', oldPath: '/a.txt', size: undefined },
+    { type: 'write', path: '/big.bin', size: 100 },
+    { type: 'unlink', path: '/tmp.txt' },
+  ]);
+});
+
+test('returns null when a step is not indexed', () => {
+  assert.equal(getChangesFromIndex(SNAPSHOTS[0], '/.snapshots/home/5'), null);
+  assert.equal(getChangesFromIndex(SNAPSHOTS[3], SNAPSHOTS[0]), null);
+});
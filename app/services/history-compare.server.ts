@@ -0,0 +1,125 @@
+import { getDB } from './db.server';
+import type { FileChange } from '~/types';
+import { collapseImpliedRenames } from '~/utils/changes';
+
+interface IndexedSnapshotRow {
+  subvolume_path: string;
+  snapshot_path: string;
+  previous_snapshot_path: string | null;
+}
+
+interface EntryRow {
+  timeline_id: number;
+  path: string;
+  change_type: 'created' | 'modified' | 'deleted' | 'renamed';
+  previous_path: string | null;
+  size: number | null;
+  is_directory: number;
+}
+
+/**
+ * Find the indexed snapshots leading from oldSnapshotPath to newSnapshotPath
+ * Returns null unless every step in between was indexed
+ */
+function findIndexedChain(oldSnapshotPath: string, newSnapshotPath: string): { subvolumePath: string; snapshots: string[] } | null {
+  const db = getDB();
+  const candidates = db.prepare(`
+    SELECT n.subvolume_path FROM indexed_snapshots n
+    JOIN indexed_snapshots o ON o.subvolume_path = n.subvolume_path AND o.snapshot_path = ?
+    WHERE n.snapshot_path = ? AND o.snapshot_created_at < n.snapshot_created_at
+  `).all(oldSnapshotPath, newSnapshotPath) as { subvolume_path: string }[];
+
+  for (const { subvolume_path: subvolumePath } of candidates) {
+    const rows = db.prepare('SELECT * FROM indexed_snapshots WHERE subvolume_path = ?').all(subvolumePath) as IndexedSnapshotRow[];
+    const previousOf = new Map(rows.map(row => [row.snapshot_path, row.previous_snapshot_path]));
+
+    // Walk back from the newer snapshot until we reach the older one
+    const snapshots: string[] = [];
+    let current: string | null = newSnapshotPath;
+    while (current && current !== oldSnapshotPath && previousOf.has(current) && snapshots.length <= rows.length) {
+      snapshots.push(current);
+      current = previousOf.get(current) ?? null;
+    }
+    if (current === oldSnapshotPath) {
+      return { subvolumePath, snapshots };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compute the changes between two snapshots from the file history index
+ *
+ * Composes the per-snapshot history entries of every indexed snapshot in
+ * between into one net change per file. Returns null when the index does
+ * not cover the whole range. Write maps, clones and metadata are not kept
+ * in the index, so those details are missing, and the size of a file
+ * written in several steps is that of its largest write.
+ */
+export function getChangesFromIndex(oldSnapshotPath: string, newSnapshotPath: string): FileChange[] | null {
+  const chain = findIndexedChain(oldSnapshotPath, newSnapshotPath);
+  if (!chain) {
+    return null;
+  }
+
+  const db = getDB();
+  const placeholders = chain.snapshots.map(() => '?').join(', ');
+  const entries = db.prepare(`
+    SELECT e.timeline_id, e.path, e.change_type, e.previous_path, e.size, e.is_directory
+    FROM file_history_entries e
+    JOIN file_timelines ft ON ft.id = e.timeline_id
+    WHERE ft.subvolume_path = ? AND e.snapshot_path IN (${placeholders})
+    ORDER BY e.snapshot_created_at, e.id
+  `).all(chain.subvolumePath, ...chain.snapshots) as EntryRow[];
+
+  const byTimeline = new Map<number, EntryRow[]>();
+  for (const entry of entries) {
+    const list = byTimeline.get(entry.timeline_id);
+    if (list) {
+      list.push(entry);
+    } else {
+      byTimeline.set(entry.timeline_id, [entry]);
+    }
+  }
+
+  const changes: FileChange[] = [];
+  const modified = new Set<FileChange>();
+
+  for (const list of byTimeline.values()) {
+    const first = list[0];
+    const last = list[list.length - 1];
+    const existedBefore = first.change_type !== 'created';
+    const existsAfter = last.change_type !== 'deleted';
+    const oldPath = first.change_type === 'renamed' ? first.previous_path ?? first.path : first.path;
+    const isDirectory = last.is_directory === 1;
+    const writes = list.filter(e => e.change_type === 'created' || e.change_type === 'modified');
+    // Steps may rewrite the same bytes and the index keeps no ranges to
+    // merge, so the largest step stands in rather than their sum
+    const size = writes.reduce((largest, e) => Math.max(largest, e.size ?? 0), 0) || undefined;
+
+    if (!existedBefore && !existsAfter) {
+      continue; // Created and deleted in between
+    }
+
+    let change: FileChange;
+    if (!existedBefore) {
+      change = { type: isDirectory ? 'mkdir' : 'link', path: last.path, size };
+    } else if (!existsAfter) {
+      change = { type: isDirectory ? 'rmdir' : 'unlink', path: oldPath };
+    } else if (oldPath !== last.path) {
+      change = { type: 'rename', path: last.path, oldPath, size };
+    } else if (writes.length > 0 || list.some(e => e.change_type === 'deleted')) {
+      change = { type: 'write', path: last.path, size };
+    } else {
+      continue; // Renamed away and back
+    }
+
+    if (writes.length > 0) {
+      modified.add(change);
+    }
+    changes.push(change);
+  }
+
+  return collapseImpliedRenames(changes, change => modified.has(change));
+}
@@ -1,23 +1,49 @@
-import * as mockBtrfs from "./mock-btrfs.server";
-import * as realBtrfs from "./btrfs.server";
-import * as realDiff from "./diff.server";
+import { mockBackend } from "./mock-btrfs.server";
+import { btrfsBackend } from "./btrfs.server";
+import { directoryBackend } from "./directory-backend.server";
+import { attachQgroupUsage } from "./qgroup.server";
+import { NotFoundError } from "./errors.server";
+import type { BackendName, SnapshotBackend } from "./backend.server";
+import type { StreamEvent, StreamOptions } from "./btrfs-stream.server";
 import type {
   Subvolume,
   Snapshot,
   SnapshotComparison,
   FileDiff,
+  DirectoryEntry,
+  FileContent,
 } from "~/types";
 
 // Use demo data when DEMO environment variable is set
 const isDemo = process.env.DEMO === "true";
+// Where snapshots come from: btrfs, mock or directory (defaults to mock in demo mode)
+const SNAPSHOT_BACKEND = process.env.SNAPSHOT_BACKEND || (isDemo ? "mock" : "btrfs");
 const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
 // Display path for copy commands (defaults to BTRFS_ROOT)
 const BTRFS_DISPLAY_PATH = process.env.BTRFS_DISPLAY_PATH || BTRFS_ROOT;
 
+export function getBackend(): SnapshotBackend {
+  // Looked up on each call, as backend modules import this one
+  const backends: Record<BackendName, SnapshotBackend> = {
+    btrfs: btrfsBackend,
+    mock: mockBackend,
+    directory: directoryBackend,
+  };
+  const backend = backends[SNAPSHOT_BACKEND as BackendName];
+  if (!backend) {
+    throw new Error(`Unknown SNAPSHOT_BACKEND: ${SNAPSHOT_BACKEND}`);
+  }
+  return backend;
+}
+
 export function isDemoMode(): boolean {
   return isDemo;
 }
 
+export function isBtrfsBackend(): boolean {
+  return getBackend().isBtrfs;
+}
+
 export function getBtrfsRoot(): string {
   return BTRFS_ROOT;
 }
@@ -27,27 +53,56 @@ export function getBtrfsDisplayPath(): string {
 }
 
 export async function getSubvolumes(): Promise<Subvolume[]> {
-  if (isDemo) {
-    return mockBtrfs.getSubvolumes();
-  }
-  return realBtrfs.getSubvolumes();
+  return getBackend().getSubvolumes();
 }
 
 export async function getSnapshots(subvolumePath: string): Promise<Snapshot[]> {
-  if (isDemo) {
-    return mockBtrfs.getSnapshots(subvolumePath);
+  return getBackend().getSnapshots(subvolumePath);
+}
+
+/**
+ * Check that a path is a subvolume or snapshot the backend lists
+ * Call before resolving a file path in it, so a request can't read any
+ * other directory under BTRFS_ROOT
+ */
+export async function assertKnownSnapshot(snapshotPath: string): Promise<void> {
+  const subvolumes = await getSubvolumes();
+  if (subvolumes.some((sv) => sv.path === snapshotPath)) return;
+
+  // Directory backends list only the backup sets, not their snapshots
+  const parent = snapshotPath.slice(0, snapshotPath.lastIndexOf("/"));
+  if (
+    getBackend().name === "directory" &&
+    subvolumes.some((sv) => sv.path === parent) &&
+    (await getSnapshots(parent)).some((s) => s.path === snapshotPath)
+  ) {
+    return;
   }
-  return realBtrfs.getSnapshots(subvolumePath);
+  throw new NotFoundError(`Snapshot not found: ${snapshotPath}`);
+}
+
+/**
+ * Get snapshots with their qgroup usage, for views that show sizes
+ * Reading qgroups is a btrfs call of its own, so plain getSnapshots skips it
+ */
+export async function getSnapshotsWithUsage(subvolumePath: string): Promise<Snapshot[]> {
+  const snapshots = await getSnapshots(subvolumePath);
+  return getBackend().name === "btrfs" ? attachQgroupUsage(snapshots) : snapshots;
 }
 
 export async function getChanges(
   oldSnapshotPath: string,
   newSnapshotPath: string
 ): Promise<SnapshotComparison> {
-  if (isDemo) {
-    return mockBtrfs.getChanges(oldSnapshotPath, newSnapshotPath);
-  }
-  return realBtrfs.getChanges(oldSnapshotPath, newSnapshotPath);
+  return getBackend().getChanges(oldSnapshotPath, newSnapshotPath);
+}
+
+export function streamChanges(
+  oldSnapshotPath: string,
+  newSnapshotPath: string,
+  options?: StreamOptions
+): AsyncGenerator<StreamEvent> {
+  return getBackend().streamChanges(oldSnapshotPath, newSnapshotPath, options);
 }
 
 export async function getFileDiff(
@@ -55,8 +110,20 @@ export async function getFileDiff(
   newSnapshotPath: string,
   filePath: string
 ): Promise<FileDiff> {
-  if (isDemo) {
-    return mockBtrfs.getFileDiff(oldSnapshotPath, newSnapshotPath, filePath);
-  }
-  return realDiff.getFileDiff(oldSnapshotPath, newSnapshotPath, filePath);
+  return getBackend().getFileDiff(oldSnapshotPath, newSnapshotPath, filePath);
+}
+
+export async function getDirectoryContents(
+  snapshotPath: string,
+  dirPath?: string,
+  includeSize?: boolean
+): Promise<DirectoryEntry[]> {
+  return getBackend().getDirectoryContents(snapshotPath, dirPath, includeSize);
+}
+
+export async function getFileContent(
+  snapshotPath: string,
+  filePath: string
+): Promise<FileContent> {
+  return getBackend().getFileContent(snapshotPath, filePath);
 }
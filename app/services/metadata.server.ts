@@ -0,0 +1,123 @@
+import { execFile } from "child_process";
+import { lstat } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import type { FileChange } from "~/types";
+
+const execFileAsync = promisify(execFile);
+
+// Longest xattr value shown before it is cut off
+const MAX_XATTR_DISPLAY = 256;
+
+/**
+ * Format a permission mode as octal (e.g., 0o100644 -> "0644")
+ */
+export function formatMode(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(4, "0");
+}
+
+export function formatOwner(uid: number, gid: number): string {
+  return `${uid}:${gid}`;
+}
+
+/**
+ * Format an xattr value for display
+ * Text values (SELinux labels, user.* attributes) are shown as-is,
+ * binary values (ACLs, capabilities) as hex
+ */
+export function formatXattrValue(data: Buffer): string {
+  // Labels are usually NUL terminated
+  const value = data.length > 0 && data[data.length - 1] === 0 ? data.subarray(0, -1) : data;
+  const text = value.toString("utf-8");
+  const isText = !text.includes("�") && !/[\x00-\x08\x0e-\x1f\x7f]/.test(text);
+
+  const display = isText ? text : `0x${value.toString("hex")}`;
+  return display.length > MAX_XATTR_DISPLAY ? `${display.slice(0, MAX_XATTR_DISPLAY)}…` : display;
+}
+
+/**
+ * Read all xattrs of a path with getfattr (Node has no xattr API)
+ * Returns null when getfattr is not installed
+ */
+async function readXattrs(fullPath: string): Promise<Map<string, string> | null> {
+  const xattrs = new Map<string, string>();
+  try {
+    const { stdout } = await execFileAsync(
+      "getfattr",
+      ["--absolute-names", "--no-dereference", "--dump", "--match=-", "--encoding=hex", fullPath],
+      { maxBuffer: 10 * 1024 * 1024 }
+    );
+    for (const line of stdout.split("\n")) {
+      if (!line || line.startsWith("#")) continue;
+      const eq = line.indexOf("=");
+      const name = eq === -1 ? line : line.slice(0, eq);
+      const hex = eq === -1 ? "" : line.slice(eq + 1).replace(/^0x/, "");
+      xattrs.set(name, formatXattrValue(Buffer.from(hex, "hex")));
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    // Path has no readable xattrs
+  }
+  return xattrs;
+}
+
+/**
+ * Fill in old values of metadata changes from the parent snapshot
+ * The send stream only carries new values. Changes whose value did not
+ * actually change (e.g. utimes that only touched atime/ctime) are dropped.
+ */
+export async function resolveOldMetadata(
+  changes: FileChange[],
+  oldSnapshotRoot: string
+): Promise<FileChange[]> {
+  const resolved: FileChange[] = [];
+  const xattrCache = new Map<string, Map<string, string> | null>();
+  let hasGetfattr = true;
+
+  for (const change of changes) {
+    if (!change.metadata) {
+      resolved.push(change);
+      continue;
+    }
+
+    const oldFullPath = join(oldSnapshotRoot, change.oldPath ?? change.path);
+    let oldValue: string | undefined;
+
+    try {
+      if (change.type === "xattr") {
+        if (hasGetfattr) {
+          let xattrs = xattrCache.get(oldFullPath);
+          if (xattrs === undefined) {
+            xattrs = await readXattrs(oldFullPath);
+            xattrCache.set(oldFullPath, xattrs);
+          }
+          if (xattrs === null) {
+            hasGetfattr = false;
+          } else {
+            oldValue = xattrs.get(change.metadata.attribute);
+          }
+        }
+      } else {
+        const stats = await lstat(oldFullPath);
+        if (change.type === "chmod") {
+          oldValue = formatMode(stats.mode);
+        } else if (change.type === "chown") {
+          oldValue = formatOwner(stats.uid, stats.gid);
+        } else if (change.type === "utimes") {
+          oldValue = stats.mtime.toISOString();
+        }
+      }
+    } catch {
+      // Old value stays unknown
+    }
+
+    if (oldValue !== undefined && oldValue === change.metadata.newValue) {
+      continue;
+    }
+    resolved.push({ ...change, metadata: { ...change.metadata, oldValue } });
+  }
+
+  return resolved;
+}
@@ -4,7 +4,13 @@ import type {
   FileChange,
   SnapshotComparison,
   FileDiff,
+  DirectoryEntry,
+  FileContent,
 } from "~/types";
+import type { SnapshotBackend } from "./backend.server";
+import type { StreamEvent } from "./btrfs-stream.server";
+import type { DataLifetime } from "./reclaim.server";
+import { summarizeChanges } from "~/utils/changes";
 
 // Generate a UUID-like string
 function uuid(): string {
@@ -23,6 +29,7 @@ const mockSubvolumes: Subvolume[] = [
     parentId: 5,
     uuid: uuid(),
     parentUuid: null,
+    receivedUuid: null,
     createdAt: new Date("2024-01-01T10:00:00"),
     isSnapshot: false,
   },
@@ -32,6 +39,7 @@ const mockSubvolumes: Subvolume[] = [
     parentId: 5,
     uuid: uuid(),
     parentUuid: null,
+    receivedUuid: null,
     createdAt: new Date("2024-01-01T10:00:00"),
     isSnapshot: false,
   },
@@ -41,22 +49,42 @@ const mockSubvolumes: Subvolume[] = [
 function generateMockSnapshots(subvolumePath: string): Snapshot[] {
   const baseDate = new Date("2024-06-01T00:00:00");
   const snapshots: Snapshot[] = [];
+  const sourceUuid = mockSubvolumes.find((sv) => sv.path === subvolumePath)?.uuid ?? null;
 
-  // Create 15 snapshots over a month
+  // Create 15 snapshots over a month, with a few snapper
+  // pre/post pairs around package upgrades
   for (let i = 0; i < 15; i++) {
     const date = new Date(baseDate);
-    date.setDate(date.getDate() + i * 2);
-    date.setHours(Math.floor(Math.random() * 24));
+    const type = i % 5 === 1 ? "pre" : i % 5 === 2 ? "post" : "single";
+    if (type === "post") {
+      date.setTime(snapshots[i - 1].createdAt.getTime() + 3 * 60 * 1000);
+    } else {
+      date.setDate(date.getDate() + i * 2);
+      date.setHours(Math.floor(Math.random() * 24));
+    }
 
     snapshots.push({
       id: 300 + i,
       path: `/.snapshots/${subvolumePath.replace("/", "")}/${date.toISOString().split("T")[0]}_${String(i).padStart(3, "0")}`,
       parentId: 256,
       uuid: uuid(),
-      parentUuid: i > 0 ? snapshots[i - 1].uuid : null,
+      // The last one is a snapshot of the one before, to show nested lineage
+      parentUuid: i === 14 ? snapshots[i - 1].uuid : sourceUuid,
+      receivedUuid: null,
       createdAt: date,
       isSnapshot: true,
       sourceSubvolume: subvolumePath,
+      // Qgroup usage: shared data grows, exclusive data varies
+      referencedBytes: 8 * 1024 ** 3 + i * 120 * 1024 ** 2,
+      exclusiveBytes: (((i * 7) % 11) + 1) * 48 * 1024 ** 2,
+      snapper: {
+        number: i + 1,
+        type,
+        preNumber: type === "post" ? i : undefined,
+        description: type === "pre" ? "pacman -Syu" : type === "post" ? "linux firefox mesa" : "timeline",
+        cleanup: type === "single" ? "timeline" : "number",
+        userdata: type === "single" ? {} : { important: i === 11 ? "yes" : "no" },
+      },
     });
   }
 
@@ -66,7 +94,10 @@ function generateMockSnapshots(subvolumePath: string): Snapshot[] {
 const snapshotCache = new Map<string, Snapshot[]>();
 
 export function getSubvolumes(): Subvolume[] {
-  return mockSubvolumes;
+  return [
+    ...mockSubvolumes,
+    ...mockSubvolumes.flatMap((sv) => getSnapshots(sv.path)),
+  ];
 }
 
 export function getSnapshots(subvolumePath: string): Snapshot[] {
@@ -76,13 +107,68 @@ export function getSnapshots(subvolumePath: string): Snapshot[] {
   return snapshotCache.get(subvolumePath)!;
 }
 
+/**
+ * Add a snapshot of a mock subvolume, taken now
+ */
+export function createSnapshot(sourcePath: string, snapshotPath: string): void {
+  const source = mockSubvolumes.find((sv) => sv.path === sourcePath);
+  if (!source) {
+    throw new Error(`Subvolume not found: ${sourcePath}`);
+  }
+
+  const snapshots = getSnapshots(sourcePath);
+  snapshots.push({
+    id: Math.max(...getSubvolumes().map((sv) => sv.id)) + 1,
+    path: snapshotPath,
+    parentId: 256,
+    uuid: uuid(),
+    parentUuid: source.uuid,
+    receivedUuid: null,
+    createdAt: new Date(),
+    isSnapshot: true,
+    sourceSubvolume: sourcePath,
+  });
+}
+
+export function deleteSnapshot(snapshotPath: string): void {
+  for (const snapshots of snapshotCache.values()) {
+    const index = snapshots.findIndex((s) => s.path === snapshotPath);
+    if (index !== -1) {
+      snapshots.splice(index, 1);
+      return;
+    }
+  }
+  throw new Error(`Snapshot not found: ${snapshotPath}`);
+}
+
+/**
+ * Mock data shared by runs of consecutive snapshots, for reclaim estimates
+ * Everything written in a snapshot is gone a snapshot or two later
+ */
+export function getMockDataLifetimes(snapshots: Snapshot[]): DataLifetime[] {
+  const lifetimes: DataLifetime[] = [];
+  for (let i = 0; i + 1 < snapshots.length; i++) {
+    lifetimes.push({ first: i, last: i + 1, bytes: ((i % 4) + 1) * 32 * 1024 ** 2 });
+    if (i % 3 === 0 && i + 2 < snapshots.length) {
+      lifetimes.push({ first: i, last: i + 2, bytes: 100 * 1024 ** 2 });
+    }
+  }
+  return lifetimes;
+}
+
 // Mock file changes between snapshots
 const mockFileChanges: Record<string, FileChange[]> = {
   default: [
     { type: "write", path: "/etc/hostname" },
     { type: "write", path: "/etc/fstab" },
     { type: "mkdir", path: "/var/log/journal/new-session" },
-    { type: "write", path: "/var/log/syslog", size: 102400 },
+    {
+      type: "write",
+      path: "/var/log/syslog",
+      size: 102400,
+      ranges: [[1945600, 2048000]],
+      fileSize: 2048000,
+    },
     { type: "unlink", path: "/tmp/old-cache-file" },
   ],
   config: [
@@ -103,12 +189,33 @@ const mockFileChanges: Record<string, FileChange[]> = {
       oldPath: "/home/user/Documents/report-draft.pdf",
     },
     { type: "unlink", path: "/home/user/.cache/old-file" },
-    { type: "write", path: "/home/user/Pictures/photo.jpg", size: 2500000 },
+    { type: "write", path: "/home/user/Pictures/photo.jpg", size: 2500000, ranges: [[0, 2500000]], fileSize: 2500000 },
+    {
+      type: "write",
+      path: "/home/user/VMs/win11.qcow2",
+      size: 3 * 1024 * 1024,
+      ranges: [
+        [0, 1024 * 1024],
+        [512 * 1024 * 1024, 513 * 1024 * 1024],
+        [3 * 1024 * 1024 * 1024, 3 * 1024 * 1024 * 1024 + 1024 * 1024],
+      ],
+      fileSize: 4 * 1024 * 1024 * 1024,
+    },
+    {
+      type: "link",
+      path: "/home/user/VMs/win11-test.qcow2",
+      size: 64 * 1024 * 1024,
+      clonedBytes: 64 * 1024 * 1024,
+      clones: [
+        { path: "/home/user/VMs/win11.qcow2", sourceOffset: 0, offset: 0, length: 64 * 1024 * 1024 },
+      ],
+    },
   ],
   packages: [
     { type: "write", path: "/usr/bin/neovim" },
     { type: "write", path: "/usr/lib/libfoo.so.1" },
     { type: "link", path: "/usr/lib/libfoo.so" },
+    { type: "link", path: "/usr/bin/nvim", linkedTo: "/usr/bin/neovim" },
     { type: "mkdir", path: "/usr/share/doc/new-package" },
     { type: "write", path: "/usr/share/doc/new-package/README" },
     { type: "write", path: "/var/lib/pacman/local/new-package/desc" },
@@ -143,17 +250,7 @@ export function getChanges(
     );
   }
 
-  const summary = {
-    added: changes.filter(
-      (c) => c.type === "mkdir" || c.type === "link" || c.type === "symlink"
-    ).length,
-    modified: changes.filter(
-      (c) => c.type === "write" || c.type === "truncate"
-    ).length,
-    deleted: changes.filter((c) => c.type === "unlink" || c.type === "rmdir")
-      .length,
-    renamed: changes.filter((c) => c.type === "rename").length,
-  };
+  const summary = summarizeChanges(changes);
 
   return {
     oldSnapshot,
@@ -299,18 +396,18 @@ Include = /etc/pacman.d/mirrorlist
   },
 };
 
+// Check if it's a binary file (by extension)
+function isBinaryPath(filePath: string): boolean {
+  const binaryExtensions = [".jpg", ".png", ".gif", ".pdf", ".bin", ".so"];
+  return binaryExtensions.some((ext) => filePath.toLowerCase().endsWith(ext));
+}
+
 export function getFileDiff(
   _oldSnapshotPath: string,
   _newSnapshotPath: string,
   filePath: string
 ): FileDiff {
-  // Check if it's a binary file (by extension or size hint)
-  const binaryExtensions = [".jpg", ".png", ".gif", ".pdf", ".bin", ".so"];
-  const isBinary = binaryExtensions.some((ext) =>
-    filePath.toLowerCase().endsWith(ext)
-  );
-
-  if (isBinary) {
+  if (isBinaryPath(filePath)) {
     return {
       path: filePath,
       isBinary: true,
@@ -347,6 +444,98 @@ export function getFileDiff(
   };
 }
 
+// Every file the mock data mentions, with its size
+function getMockFiles(): Map<string, number> {
+  const files = new Map<string, number>();
+  for (const change of Object.values(mockFileChanges).flat()) {
+    if (change.type !== "mkdir" && change.type !== "unlink") {
+      files.set(change.path, change.fileSize ?? change.size ?? 0);
+    }
+  }
+  for (const [path, content] of Object.entries(mockFileContents)) {
+    files.set(path, content.new.length);
+  }
+  return files;
+}
+
+/**
+ * List a directory built from the paths in the mock changes
+ * Every snapshot has the same files
+ */
+export function getDirectoryContents(
+  _snapshotPath: string,
+  dirPath: string = "/"
+): DirectoryEntry[] {
+  const prefix = dirPath.endsWith("/") ? dirPath : `${dirPath}/`;
+  const entries = new Map<string, DirectoryEntry>();
+  const directories = Object.values(mockFileChanges)
+    .flat()
+    .filter((change) => change.type === "mkdir")
+    .map((change) => change.path);
+
+  const add = (path: string, size: number, isDirectory: boolean) => {
+    if (!path.startsWith(prefix)) return;
+    const [name, ...rest] = path.slice(prefix.length).split("/");
+    if (!name || entries.has(name)) return;
+    entries.set(name, {
+      name,
+      path: `${prefix}${name}`,
+      isDirectory: isDirectory || rest.length > 0,
+      size: rest.length > 0 ? 0 : size,
+      modifiedAt: new Date("2024-06-01T00:00:00"),
+    });
+  };
+  for (const [path, size] of getMockFiles()) add(path, size, false);
+  for (const path of directories) add(path, 0, true);
+
+  return [...entries.values()].sort((a, b) => {
+    if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+export function getFileContent(
+  _snapshotPath: string,
+  filePath: string
+): FileContent {
+  const size = getMockFiles().get(filePath);
+  if (size === undefined) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  if (isBinaryPath(filePath)) {
+    return { content: "", isBinary: true, size, mimeType: "application/octet-stream" };
+  }
+
+  const content = mockFileContents[filePath]?.new ?? `# Content of ${filePath}\nLine 1\nLine 2\n`;
+  return { content, isBinary: false, size: content.length, mimeType: "text/plain" };
+}
+
+async function* streamChanges(
+  oldSnapshotPath: string,
+  newSnapshotPath: string
+): AsyncGenerator<StreamEvent> {
+  const { changes, summary } = getChanges(oldSnapshotPath, newSnapshotPath);
+  for (const change of changes) {
+    yield { type: "change", data: change };
+  }
+  yield { type: "done", message: `Found ${changes.length} changes.`, summary, changes };
+}
+
+export const mockBackend: SnapshotBackend = {
+  name: "mock",
+  isBtrfs: true,
+  getSubvolumes: async () => getSubvolumes(),
+  getSnapshots: async (subvolumePath) => getSnapshots(subvolumePath),
+  getChanges: async (oldSnapshotPath, newSnapshotPath) => getChanges(oldSnapshotPath, newSnapshotPath),
+  streamChanges,
+  getFileDiff: async (oldSnapshotPath, newSnapshotPath, filePath) => getFileDiff(oldSnapshotPath, newSnapshotPath, filePath),
+  getDirectoryContents: async (snapshotPath, dirPath) => getDirectoryContents(snapshotPath, dirPath),
+  getFileContent: async (snapshotPath, filePath) => getFileContent(snapshotPath, filePath),
+  createSnapshot: async (sourcePath, snapshotPath) => createSnapshot(sourcePath, snapshotPath),
+  deleteSnapshot: async (snapshotPath) => deleteSnapshot(snapshotPath),
+};
+
 // Simple unified diff generator
 function generateUnifiedDiff(
   path: string,
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseQgroupShow } from "./qgroup.server";
+
+// `btrfs qgroup show -re --raw /` from btrfs-progs 6.x, with a parent qgroup
+const SHOW = `Qgroupid    Referenced    Exclusive   Max referenced   Max exclusive   Path 
+--------    ----------    ---------   --------------   -------------   ---- 
+0/5              16384        16384             none            none   <toplevel>
+0/256       8589934592     52428800             none            none   @
+0/257       1073741824         4096             none            none   @home
+0/300       8594128896    104857600             none            none   @/.snapshots/1/snapshot
+0/301                0            0             none            none   <stale>
+1/100       9663676416    157286400             none            none   <under 1/100>
+`;
+
+// btrfs-progs 5.x and older
+const SHOW_OLD = `qgroupid         rfer         excl     max_rfer     max_excl 
+--------         ----         ----     --------     -------- 
+0/5             16384        16384         none         none 
+0/256      8589934592     52428800         none         none 
+`;
+
+test("parseQgroupShow reads level 0 qgroups by subvolume ID", () => {
+  assert.deepEqual(parseQgroupShow(SHOW), new Map([
+    [5, { referenced: 16384, exclusive: 16384 }],
+    [256, { referenced: 8589934592, exclusive: 52428800 }],
+    [257, { referenced: 1073741824, exclusive: 4096 }],
+    [300, { referenced: 8594128896, exclusive: 104857600 }],
+    [301, { referenced: 0, exclusive: 0 }],
+  ]));
+});
+
+test("parseQgroupShow reads the older column names", () => {
+  assert.deepEqual(parseQgroupShow(SHOW_OLD), new Map([
+    [5, { referenced: 16384, exclusive: 16384 }],
+    [256, { referenced: 8589934592, exclusive: 52428800 }],
+  ]));
+});
+
+test("parseQgroupShow skips sizes that aren't raw byte counts", () => {
+  const humanReadable = "0/256        8.00GiB     50.00MiB         none         none \n";
+  assert.equal(parseQgroupShow(humanReadable).size, 0);
+  assert.equal(parseQgroupShow("ERROR: can't list qgroups: quotas not enabled\n").size, 0);
+});
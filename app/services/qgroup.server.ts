@@ -0,0 +1,64 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { Snapshot } from "~/types";
+
+const execFileAsync = promisify(execFile);
+
+const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
+
+export interface QgroupUsage {
+  referenced: number; // Bytes reachable from the subvolume
+  exclusive: number; // Bytes only this subvolume holds, freed by deleting it
+}
+
+/**
+ * Parse `btrfs qgroup show -re --raw` output (with or without -F) into
+ * usage per subvolume ID
+ * Only level 0 qgroups (0/<subvolume id>) belong to a single subvolume.
+ * The first three columns are the same across btrfs-progs versions
+ * (qgroupid rfer excl, or Qgroupid Referenced Exclusive).
+ */
+export function parseQgroupShow(output: string): Map<number, QgroupUsage> {
+  const usage = new Map<number, QgroupUsage>();
+
+  for (const line of output.split("\n")) {
+    const [qgroupId, referenced, exclusive] = line.trim().split(/\s+/);
+    const match = qgroupId?.match(/^0\/(\d+)$/);
+    if (!match || !/^\d+$/.test(referenced) || !/^\d+$/.test(exclusive)) continue;
+    usage.set(Number(match[1]), { referenced: Number(referenced), exclusive: Number(exclusive) });
+  }
+
+  return usage;
+}
+
+/**
+ * Read qgroup usage for every subvolume with one btrfs call
+ * Returns null when quotas are not enabled or can't be read
+ */
+export async function getQgroupUsage(): Promise<Map<number, QgroupUsage> | null> {
+  try {
+    // -F would limit the list to one path; every subvolume is wanted here
+    const { stdout } = await execFileAsync("btrfs", ["qgroup", "show", "-re", "--raw", BTRFS_ROOT], {
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return parseQgroupShow(stdout);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attach referenced and exclusive bytes to snapshots
+ * Left unset when quotas are off
+ */
+export async function attachQgroupUsage(snapshots: Snapshot[]): Promise<Snapshot[]> {
+  const usage = await getQgroupUsage();
+  if (!usage) return snapshots;
+
+  return snapshots.map((snapshot) => {
+    const qgroup = usage.get(snapshot.id);
+    return qgroup
+      ? { ...snapshot, referencedBytes: qgroup.referenced, exclusiveBytes: qgroup.exclusive }
+      : snapshot;
+  });
+}
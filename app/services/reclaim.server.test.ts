@@ -0,0 +1,91 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Four dated snapshot directories of one backup set, and an index of them
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'reclaim-'));
+const SET = '/backups/home';
+const SNAPSHOTS = ['2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04'].map(name => `${SET}/${name}`);
+for (const snapshotPath of SNAPSHOTS) {
+  fs.mkdirSync(path.join(tmp, snapshotPath), { recursive: true });
+}
+fs.mkdirSync(path.join(tmp, '/backups/empty/2026-01-01'), { recursive: true });
+
+// Read when the services load
+process.env.SNAPSHOT_BACKEND = 'directory';
+process.env.SNAPSHOT_DIRS = `${SET},/backups/empty`;
+process.env.BTRFS_ROOT = tmp;
+process.env.FILE_HISTORY_DB = path.join(tmp, 'file-history.db');
+const { getDB } = await import('./db.server');
+const { estimateReclaim } = await import('./reclaim.server');
+
+after(() => {
+  getDB().close();
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+type Step = [snapshot: number, changeType: 'created' | 'modified' | 'deleted', size?: number];
+
+function addTimeline(filePath: string, steps: Step[]) {
+  const db = getDB();
+  const { lastInsertRowid: timelineId } = db.prepare(`
+    INSERT INTO file_timelines (subvolume_path, current_path, status, first_seen, last_seen)
+    VALUES (?, ?, 'active', '2026-01-01', '2026-01-04')
+  `).run(SET, filePath);
+
+  for (const [snapshot, changeType, size] of steps) {
+    db.prepare(`
+      INSERT INTO file_history_entries (timeline_id, snapshot_path, snapshot_created_at, path, change_type, size)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(timelineId, SNAPSHOTS[snapshot], path.basename(SNAPSHOTS[snapshot]), filePath, changeType, size ?? null);
+  }
+}
+
+const db = getDB();
+SNAPSHOTS.forEach((snapshotPath, i) => {
+  db.prepare(`
+    INSERT INTO indexed_snapshots (subvolume_path, snapshot_path, snapshot_created_at, previous_snapshot_path)
+    VALUES (?, ?, ?, ?)
+  `).run(SET, snapshotPath, path.basename(snapshotPath), SNAPSHOTS[i - 1] ?? null);
+});
+// In snapshots 0-1, then rewritten and still live
+addTimeline('/a.bin', [[0, 'created', 100], [2, 'modified', 50]]);
+// Only in snapshot 1
+addTimeline('/b.bin', [[1, 'created', 30], [2, 'deleted']]);
+// In snapshots 1-2, then rewritten
+addTimeline('/c.bin', [[1, 'created', 7], [3, 'modified', 7]]);
+
+async function estimate(...indexes: number[]) {
+  const { totalBytes, exclusiveBytes, sharedBytes } = await estimateReclaim(SET, indexes.map(i => SNAPSHOTS[i]));
+  return { totalBytes, exclusiveBytes, sharedBytes };
+}
+
+describe('estimateReclaim', () => {
+  test('frees data only when every snapshot holding it goes', async () => {
+    assert.deepEqual(await estimate(0), { totalBytes: 0, exclusiveBytes: 0, sharedBytes: 0 });
+    assert.deepEqual(await estimate(0, 1), { totalBytes: 130, exclusiveBytes: 30, sharedBytes: 100 });
+    assert.deepEqual(await estimate(1, 2), { totalBytes: 37, exclusiveBytes: 30, sharedBytes: 7 });
+  });
+
+  test('counts data in one snapshot as exclusive without qgroups', async () => {
+    assert.deepEqual(await estimate(1), { totalBytes: 30, exclusiveBytes: 30, sharedBytes: 0 });
+  });
+
+  test('never frees data still in the newest snapshot', async () => {
+    assert.deepEqual(await estimate(2, 3), { totalBytes: 0, exclusiveBytes: 0, sharedBytes: 0 });
+  });
+
+  test('says where the numbers come from', async () => {
+    const estimate = await estimateReclaim(SET, [SNAPSHOTS[1], '/elsewhere/2026-01-01']);
+    assert.equal(estimate.snapshotCount, 1);
+    assert.equal(estimate.exclusiveSource, 'index');
+    assert.equal(estimate.sharedSource, 'index');
+
+    // Nothing indexed for this set
+    const unindexed = await estimateReclaim('/backups/empty', ['/backups/empty/2026-01-01']);
+    assert.equal(unindexed.totalBytes, 0);
+    assert.equal(unindexed.sharedSource, null);
+  });
+});
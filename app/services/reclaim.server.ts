@@ -0,0 +1,126 @@
+import { getDB } from './db.server';
+import { getBackend, getSnapshotsWithUsage } from './index.server';
+import { getMockDataLifetimes } from './mock-btrfs.server';
+import type { ReclaimEstimate, Snapshot } from '~/types';
+
+/**
+ * Data written in one snapshot and still there up to a later one
+ * Indexes into the subvolume's snapshots, oldest first; last is Infinity
+ * while the data is still in the newest snapshot (and so likely live)
+ */
+export interface DataLifetime {
+  first: number;
+  last: number;
+  bytes: number;
+}
+
+interface EntryRow {
+  timeline_id: number;
+  snapshot_path: string;
+  change_type: 'created' | 'modified' | 'deleted' | 'renamed';
+  size: number | null;
+}
+
+/**
+ * Derive data lifetimes from the file history index
+ * Each created or modified entry adds its written bytes, which live until
+ * the file is next modified or deleted. Partial rewrites, reflinks and
+ * compression are not accounted for, so this is an estimate.
+ * Returns null when the subvolume has not been indexed.
+ */
+function getIndexedLifetimes(subvolumePath: string, snapshots: Snapshot[]): DataLifetime[] | null {
+  const db = getDB();
+  const indexed = db.prepare('SELECT COUNT(*) as count FROM indexed_snapshots WHERE subvolume_path = ?')
+    .get(subvolumePath) as { count: number };
+  if (indexed.count === 0) {
+    return null;
+  }
+
+  const indexOf = new Map(snapshots.map((s, i) => [s.path, i]));
+  const entries = db.prepare(`
+    SELECT e.timeline_id, e.snapshot_path, e.change_type, e.size
+    FROM file_history_entries e
+    JOIN file_timelines ft ON ft.id = e.timeline_id
+    WHERE ft.subvolume_path = ? AND e.is_directory = 0
+    ORDER BY e.timeline_id, e.snapshot_created_at, e.id
+  `).all(subvolumePath) as EntryRow[];
+
+  const lifetimes: DataLifetime[] = [];
+  let open: DataLifetime | null = null;
+  let timeline: number | null = null;
+
+  for (const entry of entries) {
+    const index = indexOf.get(entry.snapshot_path);
+    if (index === undefined) continue; // Snapshot deleted since indexing
+
+    if (entry.timeline_id !== timeline) {
+      open = null;
+      timeline = entry.timeline_id;
+    }
+    if (entry.change_type === 'renamed') continue;
+
+    // The previous version is gone from this snapshot on
+    if (open) {
+      open.last = index - 1;
+      open = null;
+    }
+    if (entry.change_type !== 'deleted' && entry.size) {
+      open = { first: index, last: Infinity, bytes: entry.size };
+      lifetimes.push(open);
+    }
+  }
+
+  return lifetimes;
+}
+
+/**
+ * Estimate the space deleting a set of snapshots would free
+ *
+ * Data held by one snapshot alone comes from its qgroup exclusive size.
+ * Data shared by several snapshots is freed only if all of them are
+ * deleted; that comes from the file history index.
+ */
+export async function estimateReclaim(subvolumePath: string, snapshotPaths: string[]): Promise<ReclaimEstimate> {
+  const snapshots = [...await getSnapshotsWithUsage(subvolumePath)].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const selected = new Set(snapshotPaths);
+  const isSelected = (index: number) => index < snapshots.length && selected.has(snapshots[index].path);
+
+  const isMock = getBackend().name === 'mock';
+  const lifetimes = isMock ? getMockDataLifetimes(snapshots) : getIndexedLifetimes(subvolumePath, snapshots);
+  const hasQgroups = snapshots.some(s => s.exclusiveBytes !== undefined);
+
+  let exclusiveBytes = 0;
+  let sharedBytes = 0;
+
+  if (hasQgroups) {
+    for (const snapshot of snapshots) {
+      if (selected.has(snapshot.path)) exclusiveBytes += snapshot.exclusiveBytes ?? 0;
+    }
+  }
+
+  for (const lifetime of lifetimes ?? []) {
+    if (lifetime.last === Infinity) continue;
+    let freed = true;
+    for (let i = lifetime.first; i <= lifetime.last && freed; i++) {
+      freed = isSelected(i);
+    }
+    if (!freed) continue;
+
+    if (lifetime.first < lifetime.last) {
+      sharedBytes += lifetime.bytes;
+    } else if (!hasQgroups) {
+      exclusiveBytes += lifetime.bytes;
+    }
+  }
+
+  return {
+    snapshotCount: snapshots.filter(s => selected.has(s.path)).length,
+    exclusiveBytes,
+    sharedBytes,
+    totalBytes: exclusiveBytes + sharedBytes,
+    exclusiveSource: isMock ? 'mock' : hasQgroups ? 'qgroup' : 'index',
+    sharedSource: isMock ? 'mock' : lifetimes ? 'index' : null,
+  };
+}
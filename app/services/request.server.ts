@@ -0,0 +1,39 @@
+/**
+ * Reject requests another site's page sent from the user's browser
+ *
+ * Scripts such as curl send neither Origin nor Sec-Fetch-Site and are let
+ * through.
+ */
+export function assertSameOrigin(request: Request) {
+  const fetchSite = request.headers.get('Sec-Fetch-Site');
+  const origin = request.headers.get('Origin');
+  if ((fetchSite && fetchSite !== 'same-origin') || (origin && origin !== new URL(request.url).origin)) {
+    throw new Response('Cross-origin requests are not allowed', { status: 403 });
+  }
+}
+
+/**
+ * Read the JSON body of a request that changes the filesystem
+ *
+ * Only JSON bodies from this origin are accepted, so another site can't
+ * drive the endpoint with a cross-site form post.
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+  const contentType = request.headers.get('Content-Type') || '';
+  if (!contentType.toLowerCase().startsWith('application/json')) {
+    throw new Response('Content-Type must be application/json', { status: 415 });
+  }
+
+  assertSameOrigin(request);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new Response('Invalid JSON body', { status: 400 });
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new Response('Invalid JSON body: expected an object', { status: 400 });
+  }
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,283 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getBackend, getDirectoryContents, getSnapshots, getSubvolumes } from './index.server';
+import { clearCaches, resolveFullPath } from './file-listing.server';
+import { recordAudit } from './audit.server';
+import { ForbiddenError, InvalidRequestError, NotFoundError } from './errors.server';
+import type { RestoreResult } from '~/types';
+import { buildLineage, getLineageRoot } from '~/utils/lineage';
+
+const execFileAsync = promisify(execFile);
+
+// Restores write to live subvolumes, so they share the management flag
+const ALLOW_SNAPSHOT_MANAGEMENT = process.env.ALLOW_SNAPSHOT_MANAGEMENT === 'true';
+// Where restores may write besides the source subvolume, relative to BTRFS_ROOT
+const RESTORE_ROOT = process.env.RESTORE_ROOT ? path.posix.normalize(`/${process.env.RESTORE_ROOT}`) : null;
+
+export type ConflictPolicy = 'overwrite' | 'rename';
+
+export interface RestoreOptions {
+  // Directory to restore into, relative to BTRFS_ROOT
+  // Defaults to the original location in the live source subvolume
+  // Inside the source subvolume or RESTORE_ROOT
+  targetDir?: string;
+  conflict: ConflictPolicy;
+  dryRun: boolean;
+  // Replacing an existing target needs its path typed back
+  confirm?: string;
+}
+
+/**
+ * The subvolume a snapshot was taken of, or null if it has no live source
+ * Read from the subvolume list and lineage, without the qgroup lookup that
+ * getSnapshots makes. Throws when snapshotPath is not a known snapshot.
+ */
+async function findSourceSubvolume(snapshotPath: string): Promise<string | null> {
+  const subvolumes = await getSubvolumes();
+
+  // Backup sets are listed as subvolumes, but they hold backups, not live data
+  if (getBackend().name === 'directory') {
+    const backupSet = subvolumes.find(sv => sv.path === path.posix.dirname(snapshotPath));
+    if (!backupSet || !(await getSnapshots(backupSet.path)).some(s => s.path === snapshotPath)) {
+      throw new NotFoundError(`Snapshot not found: ${snapshotPath}`);
+    }
+    return null;
+  }
+
+  const snapshot = subvolumes.find(sv => sv.path === snapshotPath && sv.isSnapshot);
+  if (!snapshot) {
+    throw new NotFoundError(`Snapshot not found: ${snapshotPath}`);
+  }
+  // Received backups lead back to themselves or to another snapshot
+  const root = getLineageRoot(buildLineage(subvolumes), snapshot);
+  return root.isSnapshot ? null : root.path;
+}
+
+async function exists(fullPath: string): Promise<boolean> {
+  try {
+    await fs.lstat(fullPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isWithin(childPath: string, parentPath: string): boolean {
+  return parentPath === '/' || childPath === parentPath || childPath.startsWith(`${parentPath}/`);
+}
+
+/**
+ * Real path of a path that may not exist yet, through its nearest
+ * existing ancestor
+ */
+async function realpathOfExisting(fullPath: string): Promise<string> {
+  try {
+    return await fs.realpath(fullPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || path.dirname(fullPath) === fullPath) {
+      throw error;
+    }
+    return path.join(await realpathOfExisting(path.dirname(fullPath)), path.basename(fullPath));
+  }
+}
+
+/**
+ * Whether a path stays inside a root once symlinks are followed
+ */
+async function isReallyWithin(relativePath: string, rootPath: string): Promise<boolean> {
+  const [realPath, realRoot] = await Promise.all([
+    realpathOfExisting(resolveFullPath(relativePath)),
+    realpathOfExisting(resolveFullPath(rootPath)),
+  ]);
+  return isWithin(realPath, realRoot);
+}
+
+/**
+ * Count the regular files under a path and their bytes
+ */
+async function countTree(fullPath: string): Promise<{ files: number; bytes: number }> {
+  const stats = await fs.lstat(fullPath);
+  if (!stats.isDirectory()) {
+    return { files: 1, bytes: stats.isFile() ? stats.size : 0 };
+  }
+
+  let files = 0;
+  let bytes = 0;
+  for (const entry of await fs.readdir(fullPath)) {
+    const counts = await countTree(path.join(fullPath, entry));
+    files += counts.files;
+    bytes += counts.bytes;
+  }
+  return { files, bytes };
+}
+
+/**
+ * Count a path in the mock snapshots, which only exist as listings
+ */
+async function countMockTree(snapshotPath: string, filePath: string): Promise<{ isDirectory: boolean; files: number; bytes: number }> {
+  const parent = path.posix.dirname(filePath);
+  const entry = (await getDirectoryContents(snapshotPath, parent)).find(e => e.path === filePath);
+  if (!entry) {
+    throw new NotFoundError(`File not found: ${snapshotPath}${filePath}`);
+  }
+  if (!entry.isDirectory) {
+    return { isDirectory: false, files: 1, bytes: entry.size };
+  }
+
+  let files = 0;
+  let bytes = 0;
+  for (const child of await getDirectoryContents(snapshotPath, filePath)) {
+    const counts = await countMockTree(snapshotPath, child.path);
+    files += counts.files;
+    bytes += counts.bytes;
+  }
+  return { isDirectory: true, files, bytes };
+}
+
+/**
+ * First free name for a restored copy next to an existing path:
+ * name.restored, then name.restored-2 and so on
+ */
+async function findFreeName(targetPath: string): Promise<string> {
+  for (let i = 1; ; i++) {
+    const candidate = `${targetPath}.restored${i > 1 ? `-${i}` : ''}`;
+    if (!(await exists(resolveFullPath(candidate)))) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Copy a file or directory out of a snapshot, or preview the copy
+ *
+ * The copy is made with cp --reflink=auto, so on the same btrfs filesystem
+ * it shares extents with the snapshot instead of duplicating data. It is
+ * written next to the target first and moved into place, so a failed copy
+ * leaves an existing target untouched.
+ */
+export async function restoreFromSnapshot(
+  snapshotPath: string,
+  filePath: string,
+  options: RestoreOptions
+): Promise<RestoreResult> {
+  const normalizedFilePath = path.posix.normalize(`/${filePath}`);
+  if (normalizedFilePath === '/') {
+    throw new InvalidRequestError('Choose a file or directory inside the snapshot to restore');
+  }
+
+  const isMock = getBackend().name === 'mock';
+  const sourceSubvolume = await findSourceSubvolume(snapshotPath);
+  if (!options.targetDir && !sourceSubvolume) {
+    throw new InvalidRequestError(`${snapshotPath} has no live source subvolume; choose a target directory`);
+  }
+
+  const targetDir = options.targetDir ? path.posix.normalize(`/${options.targetDir}`) : null;
+  let targetPath = targetDir
+    ? path.posix.join(targetDir, path.posix.basename(normalizedFilePath))
+    : path.posix.join(sourceSubvolume!, normalizedFilePath);
+
+  // Restores only write into the source subvolume or RESTORE_ROOT
+  const allowedRoot = [sourceSubvolume, RESTORE_ROOT].find(root => root && isWithin(targetPath, root));
+  if (!allowedRoot) {
+    const roots = [sourceSubvolume, RESTORE_ROOT].filter(Boolean);
+    throw new ForbiddenError(roots.length > 0
+      ? `Permission denied: restores can only go into ${roots.join(' or ')}`
+      : 'Permission denied: set RESTORE_ROOT to choose where restores can go');
+  }
+
+  let isDirectory: boolean;
+  let files: number;
+  let bytes: number;
+  let targetExists: boolean;
+
+  if (isMock) {
+    ({ isDirectory, files, bytes } = await countMockTree(snapshotPath, normalizedFilePath));
+    // Mock files are in every snapshot, so they are in the live subvolume too
+    targetExists = !targetDir;
+  } else {
+    const sourceFullPath = resolveFullPath(path.posix.join(snapshotPath, normalizedFilePath));
+    if (!(await exists(sourceFullPath))) {
+      throw new NotFoundError(`File not found: ${snapshotPath}${normalizedFilePath}`);
+    }
+    // Symlinked directories must not lead out of the snapshot or the allowed root
+    const [sourceInside, targetInside] = await Promise.all([
+      isReallyWithin(path.posix.join(snapshotPath, path.posix.dirname(normalizedFilePath)), snapshotPath),
+      isReallyWithin(path.posix.dirname(targetPath), allowedRoot),
+    ]);
+    if (!sourceInside || !targetInside) {
+      throw new ForbiddenError(`Permission denied: ${sourceInside ? targetPath : normalizedFilePath} leads outside through a symlink`);
+    }
+    isDirectory = (await fs.lstat(sourceFullPath)).isDirectory();
+    ({ files, bytes } = await countTree(sourceFullPath));
+    targetExists = await exists(resolveFullPath(targetPath));
+  }
+
+  let conflict: RestoreResult['conflict'] = 'none';
+  if (targetExists) {
+    conflict = options.conflict;
+    if (conflict === 'rename') {
+      targetPath = isMock ? `${targetPath}.restored` : await findFreeName(targetPath);
+    }
+  }
+
+  const result: RestoreResult = {
+    snapshotPath,
+    path: normalizedFilePath,
+    targetPath,
+    sourceSubvolume,
+    isDirectory,
+    files,
+    bytes,
+    conflict,
+    dryRun: options.dryRun,
+    allowed: ALLOW_SNAPSHOT_MANAGEMENT,
+  };
+  if (options.dryRun) {
+    return result;
+  }
+  if (!ALLOW_SNAPSHOT_MANAGEMENT) {
+    throw new ForbiddenError('Restoring is disabled');
+  }
+  if (conflict === 'overwrite' && options.confirm !== targetPath) {
+    throw new InvalidRequestError('Confirmation does not match the target path');
+  }
+
+  const auditSubvolume = sourceSubvolume ?? snapshotPath;
+  const message = `from ${snapshotPath}${normalizedFilePath}`;
+
+  try {
+    if (!isMock) {
+      await copyIntoPlace(
+        resolveFullPath(path.posix.join(snapshotPath, normalizedFilePath)),
+        resolveFullPath(targetPath),
+        conflict === 'overwrite'
+      );
+      clearCaches();
+    }
+    recordAudit('restore', auditSubvolume, targetPath, { message });
+  } catch (error) {
+    recordAudit('restore', auditSubvolume, targetPath, { error });
+    throw error;
+  }
+
+  return result;
+}
+
+async function copyIntoPlace(sourceFullPath: string, targetFullPath: string, overwrite: boolean): Promise<void> {
+  await fs.mkdir(path.dirname(targetFullPath), { recursive: true });
+  const tempPath = `${targetFullPath}.restoring-${process.pid}-${Date.now()}`;
+
+  try {
+    await execFileAsync('cp', ['-a', '--reflink=auto', '--', sourceFullPath, tempPath]);
+    if (overwrite) {
+      await fs.rm(targetFullPath, { recursive: true, force: true });
+    }
+    await fs.rename(tempPath, targetFullPath);
+  } catch (error) {
+    await fs.rm(tempPath, { recursive: true, force: true });
+    const err = error as { stderr?: string; message: string };
+    throw new Error(`Restore failed: ${err.stderr || err.message}`);
+  }
+}
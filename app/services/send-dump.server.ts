@@ -0,0 +1,237 @@
+import type { SendCommand, SendCommandType } from "./send-stream.server";
+
+// Commands printed by `btrfs receive --dump`
+const DUMP_COMMANDS = new Set<SendCommandType>([
+  "subvol",
+  "snapshot",
+  "mkfile",
+  "mkdir",
+  "mknod",
+  "mkfifo",
+  "mksock",
+  "symlink",
+  "rename",
+  "link",
+  "unlink",
+  "rmdir",
+  "set_xattr",
+  "remove_xattr",
+  "write",
+  "clone",
+  "truncate",
+  "chmod",
+  "chown",
+  "utimes",
+  "update_extent",
+  "fallocate",
+  "fileattr",
+  "encoded_write",
+  "enable_verity",
+]);
+
+// Single-letter escapes used by btrfs-progs print_path_escaped()
+const ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  e: 0x1b,
+  f: 0x0c,
+  n: 0x0a,
+  r: 0x0d,
+  t: 0x09,
+  v: 0x0b,
+};
+
+/**
+ * Split a dump line into whitespace separated tokens, decoding escapes.
+ * Escaped spaces (`\ `) and octal escapes for UTF-8 bytes (`\303\251`)
+ * stay part of their token.
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let bytes: number[] = [];
+  let inToken = false;
+  let i = 0;
+
+  const flush = () => {
+    if (inToken) {
+      tokens.push(Buffer.from(bytes).toString("utf-8"));
+    }
+    bytes = [];
+    inToken = false;
+  };
+
+  while (i < line.length) {
+    const char = line[i];
+    if (char === "\\" && i + 1 < line.length) {
+      inToken = true;
+      const octal = line.slice(i + 1).match(/^[0-7]{1,3}/);
+      if (octal) {
+        bytes.push(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      const next = line[i + 1];
+      bytes.push(next in ESCAPES ? ESCAPES[next] : line.charCodeAt(i + 1));
+      i += 2;
+    } else if (char === " " || char === "\t") {
+      flush();
+      i++;
+    } else {
+      inToken = true;
+      bytes.push(line.charCodeAt(i));
+      i++;
+    }
+  }
+  flush();
+
+  return tokens;
+}
+
+/**
+ * Strip the snapshot prefix from paths (e.g., "./2026-01-28_00:00:01/storage/..." -> "storage/...")
+ */
+function stripSnapshotPrefix(path: string): string {
+  if (path.startsWith("./")) {
+    path = path.slice(2);
+  }
+  const slashIndex = path.indexOf("/");
+  if (slashIndex !== -1) {
+    return path.slice(slashIndex + 1);
+  }
+  return "";
+}
+
+function parseDumpTime(value: string): Date | undefined {
+  const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, "$1:$2"));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a single line of `btrfs receive --dump` output into a send command
+ * The line is expected as a latin1 string so every character is one byte
+ */
+function parseDumpLine(line: string): SendCommand | null {
+  const tokens = tokenize(line.trim());
+  if (tokens.length < 2) return null;
+
+  const type = tokens[0].toLowerCase() as SendCommandType;
+  if (!DUMP_COMMANDS.has(type)) return null;
+
+  const rawPath = tokens[1];
+  const command: SendCommand = {
+    type,
+    // subvol/snapshot lines carry the bare subvolume name
+    path: type === "subvol" || type === "snapshot"
+      ? rawPath.replace(/^\.\//, "").replace(/\/$/, "")
+      : stripSnapshotPrefix(rawPath),
+  };
+
+  const values = new Map<string, string>();
+  for (let i = 2; i < tokens.length; i++) {
+    // Older btrfs-progs printed renames as "from -> to"
+    if (tokens[i] === "->" && i + 1 < tokens.length) {
+      values.set("dest", tokens[++i]);
+      continue;
+    }
+    const eq = tokens[i].indexOf("=");
+    if (eq > 0) {
+      values.set(tokens[i].slice(0, eq), tokens[i].slice(eq + 1));
+    }
+  }
+
+  const num = (key: string): number | undefined => {
+    const value = values.get(key);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  switch (type) {
+    case "subvol":
+    case "snapshot":
+      command.uuid = values.get("uuid");
+      command.ctransid = num("transid");
+      command.cloneUuid = values.get("parent_uuid");
+      break;
+    case "rename":
+      command.pathTo = stripSnapshotPrefix(values.get("dest") ?? "");
+      break;
+    case "link":
+    case "symlink":
+      command.pathLink = values.get("dest");
+      break;
+    case "mknod":
+      command.mode = values.has("mode") ? parseInt(values.get("mode")!, 8) : undefined;
+      command.rdev = num("dev");
+      break;
+    case "write":
+    case "update_extent":
+      command.offset = num("offset");
+      command.length = num("len");
+      break;
+    case "encoded_write":
+      command.offset = num("offset");
+      command.length = num("unencoded_file_len") ?? num("len");
+      break;
+    case "fallocate":
+      command.offset = num("offset");
+      command.size = num("len");
+      break;
+    case "clone":
+      command.offset = num("offset");
+      command.cloneLength = num("len");
+      command.cloneOffset = num("clone_offset");
+      command.clonePath = values.has("from")
+        ? stripSnapshotPrefix(values.get("from")!)
+        : undefined;
+      break;
+    case "truncate":
+      command.size = num("size");
+      break;
+    case "chmod":
+      command.mode = values.has("mode") ? parseInt(values.get("mode")!, 8) : undefined;
+      break;
+    case "chown":
+      command.uid = num("uid");
+      command.gid = num("gid");
+      break;
+    case "utimes":
+      command.atime = parseDumpTime(values.get("atime") ?? "");
+      command.mtime = parseDumpTime(values.get("mtime") ?? "");
+      command.ctime = parseDumpTime(values.get("ctime") ?? "");
+      break;
+    case "set_xattr":
+    case "remove_xattr":
+      command.xattrName = values.get("name");
+      if (values.has("data")) {
+        command.xattrData = Buffer.from(values.get("data")!, "utf-8");
+      }
+      break;
+  }
+
+  return command;
+}
+
+/**
+ * Decode `btrfs receive --dump` text into send commands
+ */
+export async function* decodeSendDump(
+  source: AsyncIterable<Uint8Array>
+): AsyncGenerator<SendCommand> {
+  let pending = "";
+
+  for await (const chunk of source) {
+    // latin1 keeps bytes 1:1 so escapes and raw UTF-8 survive tokenizing
+    pending += Buffer.from(chunk).toString("latin1");
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const command = parseDumpLine(line);
+      if (command) yield command;
+    }
+  }
+
+  const command = parseDumpLine(pending);
+  if (command) yield command;
+}
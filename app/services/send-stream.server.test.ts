@@ -0,0 +1,166 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createChangeBuilder, decodeSendStream, type SendCommand } from "./send-stream.server";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "__fixtures__", "send-stream");
+
+// Small chunks, so commands and attributes are split across reads
+async function decodeFixture(name: string, chunkSize = 7): Promise<SendCommand[]> {
+  const commands: SendCommand[] = [];
+  const source = fs.createReadStream(path.join(FIXTURES, name), { highWaterMark: chunkSize });
+  for await (const command of decodeSendStream(source)) {
+    commands.push(command);
+  }
+  return commands;
+}
+
+function netChanges(commands: SendCommand[], metadata = false) {
+  const builder = createChangeBuilder({ metadata });
+  for (const command of commands) builder.push(command);
+  // Drop unset fields
+  return JSON.parse(JSON.stringify(builder.finish()));
+}
+
+async function* chunks(...buffers: Buffer[]) {
+  yield* buffers;
+}
+
+describe("decodeSendStream", () => {
+  test("decodes a v1 stream", async () => {
+    const commands = await decodeFixture("incremental-v1.send");
+
+    assert.deepEqual(commands.map((c) => c.type), [
+      "snapshot",
+      "mkfile", "rename", "link", "write", "chown", "chmod", "utimes",
+      "rename",
+      "write", "truncate", "chmod", "set_xattr", "utimes",
+      "mkfile", "clone", "rename",
+      "unlink", "rmdir",
+      "rename", "unlink", "rmdir",
+      "mkdir", "unlink", "rename", "utimes",
+      "end",
+    ]);
+    assert.deepEqual(commands[0], {
+      type: "snapshot",
+      path: "snap-2",
+      uuid: "9f8e7d6c-5b4a-4938-8271-605f4e3d2c1b",
+      ctransid: 120,
+      cloneUuid: "5a1e0b2c-3d4e-4f60-8172-93a4b5c6d7e8",
+    });
+    assert.deepEqual(commands[1], { type: "mkfile", path: "o260-7-0", ino: 260 });
+    assert.deepEqual(commands[4], { type: "write", path: "docs/new.txt", offset: 0, length: 6 });
+    assert.equal(commands[6].mode, 0o644);
+    assert.equal(commands[7].mtime?.toISOString(), "2026-01-29T00:00:01.500Z");
+    assert.equal(commands[12].xattrName, "user.origin");
+    assert.equal(commands[12].xattrData?.toString(), "backup");
+    assert.deepEqual(commands[15], {
+      type: "clone",
+      path: "o263-9-0",
+      offset: 0,
+      cloneLength: 4096,
+      cloneUuid: "9f8e7d6c-5b4a-4938-8271-605f4e3d2c1b",
+      clonePath: "docs/a.txt",
+      cloneOffset: 0,
+    });
+  });
+
+  test("decodes v2 encoded writes, fallocate, fileattr and unsized data", async () => {
+    const commands = await decodeFixture("incremental-v2.send");
+
+    assert.deepEqual(commands.map((c) => c.type), [
+      "snapshot", "encoded_write", "fallocate", "write", "update_extent", "fileattr", "end",
+    ]);
+    // The logical length, not the 4 KiB of compressed data
+    assert.deepEqual(commands[1], { type: "encoded_write", path: "docs/big.bin", offset: 0, length: 131072 });
+    assert.deepEqual(commands[2], { type: "fallocate", path: "docs/big.bin", offset: 131072, size: 917504 });
+    assert.deepEqual(commands[3], { type: "write", path: "docs/small.txt", offset: 2, length: 7 });
+  });
+
+  test("decodes v3 enable_verity", async () => {
+    const commands = await decodeFixture("incremental-v3.send");
+
+    assert.deepEqual(commands.map((c) => c.type), ["snapshot", "write", "enable_verity", "end"]);
+    assert.deepEqual(commands[2], { type: "enable_verity", path: "docs/signed.bin" });
+  });
+
+  test("decodes concatenated streams of different versions", async () => {
+    const v1 = fs.readFileSync(path.join(FIXTURES, "incremental-v1.send"));
+    const v3 = fs.readFileSync(path.join(FIXTURES, "incremental-v3.send"));
+    const commands: SendCommand[] = [];
+    for await (const command of decodeSendStream(chunks(v1, v3))) {
+      commands.push(command);
+    }
+
+    assert.equal(commands.length, 27 + 4);
+    assert.equal(commands[27].path, "snap-v3");
+  });
+
+  test("rejects bad magic and truncated streams", async () => {
+    const v1 = fs.readFileSync(path.join(FIXTURES, "incremental-v1.send"));
+    const drain = async (source: AsyncIterable<Uint8Array>) => {
+      for await (const _ of decodeSendStream(source)) {
+        // Only the error matters
+      }
+    };
+
+    await assert.rejects(drain(chunks(Buffer.from("not-a-stream\0\x01\0\0\0"))), /bad magic/);
+    await assert.rejects(drain(chunks(v1.subarray(0, v1.length - 3))), /Truncated send stream/);
+  });
+});
+
+describe("createChangeBuilder", () => {
+  test("builds net changes through orphans, renames and replacements", async () => {
+    const changes = netChanges(await decodeFixture("incremental-v1.send"));
+
+    assert.deepEqual(changes, [
+      { type: "rename", path: "docs/moved.txt", oldPath: "docs/old.txt" },
+      { type: "write", path: "docs/a.txt", offset: 4096, size: 10, ranges: [[4096, 4106]], fileSize: 4106 },
+      // Created under an orphan name, then renamed into place
+      { type: "link", path: "docs/new.txt", size: 6, ino: 260 },
+      { type: "link", path: "docs/link.txt", ino: 260, linkedTo: "docs/new.txt" },
+      {
+        type: "link",
+        path: "docs/copy.txt",
+        size: 4096,
+        clonedBytes: 4096,
+        clones: [{ sourceOffset: 0, offset: 0, length: 4096, path: "docs/a.txt" }],
+        ino: 263,
+      },
+      // A file replaced by a directory
+      { type: "typechange", path: "docs/c", ino: 262 },
+      { type: "unlink", path: "docs/b.txt" },
+      { type: "rmdir", path: "docs/empty" },
+      // Deleted after being moved to an orphan name, under its original path
+      { type: "rmdir", path: "docs/gone", ino: 259 },
+      { type: "unlink", path: "docs/gone/x.txt" },
+    ]);
+  });
+
+  test("reports metadata of existing paths only in metadata mode", async () => {
+    const changes = netChanges(await decodeFixture("incremental-v1.send"), true);
+    const metadata = changes.filter((c: { metadata?: unknown }) => c.metadata);
+
+    assert.deepEqual(metadata, [
+      { path: "docs/a.txt", type: "chmod", metadata: { attribute: "mode", newValue: "0600" } },
+      { path: "docs/a.txt", type: "utimes", metadata: { attribute: "mtime", newValue: "2026-01-29T00:00:01.500Z" } },
+      { path: "docs/a.txt", type: "xattr", metadata: { attribute: "user.origin", newValue: "backup" } },
+      { path: "docs", type: "utimes", metadata: { attribute: "mtime", newValue: "2026-01-29T00:00:01.500Z" } },
+    ]);
+  });
+
+  test("counts encoded writes by their logical length", async () => {
+    assert.deepEqual(netChanges(await decodeFixture("incremental-v2.send")), [
+      { type: "write", path: "docs/big.bin", offset: 0, size: 131072, ranges: [[0, 131072]] },
+      { type: "write", path: "docs/small.txt", offset: 2, size: 7, ranges: [[2, 9]] },
+    ]);
+  });
+
+  test("ignores enable_verity", async () => {
+    assert.deepEqual(netChanges(await decodeFixture("incremental-v3.send")), [
+      { type: "write", path: "docs/signed.bin", offset: 0, size: 6, ranges: [[0, 6]] },
+    ]);
+  });
+});
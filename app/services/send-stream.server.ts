@@ -0,0 +1,793 @@
+import { spawn } from "child_process";
+import type { Readable } from "stream";
+import type { CloneRange, FileChange } from "~/types";
+import { addRange, coalesceRanges, rangeBytes, type ByteRange } from "~/utils/ranges";
+import { formatMode, formatOwner, formatXattrValue } from "./metadata.server";
+
+// Binary layout of a btrfs send stream (see fs/btrfs/send.h in the kernel)
+const STREAM_MAGIC = Buffer.from("btrfs-stream\0", "latin1");
+const STREAM_HEADER_SIZE = STREAM_MAGIC.length + 4; // magic + le32 version
+const COMMAND_HEADER_SIZE = 10; // le32 length, le16 command, le32 crc32c
+const ATTR_HEADER_SIZE = 4; // le16 type, le16 length
+
+export type SendCommandType =
+  | "subvol"
+  | "snapshot"
+  | "mkfile"
+  | "mkdir"
+  | "mknod"
+  | "mkfifo"
+  | "mksock"
+  | "symlink"
+  | "rename"
+  | "link"
+  | "unlink"
+  | "rmdir"
+  | "set_xattr"
+  | "remove_xattr"
+  | "write"
+  | "clone"
+  | "truncate"
+  | "chmod"
+  | "chown"
+  | "utimes"
+  | "end"
+  | "update_extent"
+  | "fallocate"
+  | "fileattr"
+  | "encoded_write"
+  | "enable_verity";
+
+// Command numbers, indexed by their on-disk value
+const COMMAND_TYPES: (SendCommandType | null)[] = [
+  null, // unspec
+  "subvol",
+  "snapshot",
+  "mkfile",
+  "mkdir",
+  "mknod",
+  "mkfifo",
+  "mksock",
+  "symlink",
+  "rename",
+  "link",
+  "unlink",
+  "rmdir",
+  "set_xattr",
+  "remove_xattr",
+  "write",
+  "clone",
+  "truncate",
+  "chmod",
+  "chown",
+  "utimes",
+  "end",
+  "update_extent",
+  // Version 2
+  "fallocate",
+  "fileattr",
+  "encoded_write",
+  // Version 3
+  "enable_verity",
+];
+
+// Attribute numbers
+const A_UUID = 1;
+const A_CTRANSID = 2;
+const A_INO = 3;
+const A_SIZE = 4;
+const A_MODE = 5;
+const A_UID = 6;
+const A_GID = 7;
+const A_RDEV = 8;
+const A_CTIME = 9;
+const A_MTIME = 10;
+const A_ATIME = 11;
+const A_XATTR_NAME = 13;
+const A_XATTR_DATA = 14;
+const A_PATH = 15;
+const A_PATH_TO = 16;
+const A_PATH_LINK = 17;
+const A_FILE_OFFSET = 18;
+const A_DATA = 19;
+const A_CLONE_UUID = 20;
+const A_CLONE_PATH = 22;
+const A_CLONE_OFFSET = 23;
+const A_CLONE_LEN = 24;
+const A_UNENCODED_FILE_LEN = 27;
+
+/**
+ * A decoded send stream command.
+ * Only the attributes relevant to change tracking are kept; file data is
+ * reduced to its length.
+ */
+export interface SendCommand {
+  type: SendCommandType;
+  path?: string;
+  pathTo?: string; // rename destination
+  pathLink?: string; // link/symlink target
+  ino?: number;
+  uuid?: string;
+  ctransid?: number;
+  offset?: number;
+  length?: number; // bytes written, or logical length for encoded writes
+  size?: number; // truncate/update_extent/fallocate size
+  mode?: number;
+  uid?: number;
+  gid?: number;
+  rdev?: number;
+  atime?: Date;
+  mtime?: Date;
+  ctime?: Date;
+  xattrName?: string;
+  xattrData?: Buffer;
+  clonePath?: string;
+  cloneUuid?: string;
+  cloneOffset?: number;
+  cloneLength?: number;
+}
+
+function readU64(value: Buffer): number {
+  return Number(value.readBigUInt64LE(0));
+}
+
+function readTimespec(value: Buffer): Date {
+  const seconds = Number(value.readBigUInt64LE(0));
+  const nanoseconds = value.readUInt32LE(8);
+  return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+}
+
+function formatUuid(value: Buffer): string {
+  const hex = value.toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Decode the attributes of a single command payload
+ */
+function decodeCommand(
+  type: SendCommandType,
+  payload: Buffer,
+  version: number
+): SendCommand {
+  const command: SendCommand = { type };
+  let pos = 0;
+
+  while (pos + 2 <= payload.length) {
+    const attr = payload.readUInt16LE(pos);
+    let value: Buffer;
+
+    // Since v2 the data attribute has no length and runs to the end of the command
+    if (attr === A_DATA && version >= 2) {
+      value = payload.subarray(pos + 2);
+      pos = payload.length;
+    } else {
+      if (pos + ATTR_HEADER_SIZE > payload.length) {
+        throw new Error(`Truncated attribute in ${type} command`);
+      }
+      const length = payload.readUInt16LE(pos + 2);
+      const start = pos + ATTR_HEADER_SIZE;
+      if (start + length > payload.length) {
+        throw new Error(`Truncated attribute in ${type} command`);
+      }
+      value = payload.subarray(start, start + length);
+      pos = start + length;
+    }
+
+    switch (attr) {
+      case A_UUID:
+        command.uuid = formatUuid(value);
+        break;
+      case A_CTRANSID:
+        command.ctransid = readU64(value);
+        break;
+      case A_INO:
+        command.ino = readU64(value);
+        break;
+      case A_SIZE:
+        command.size = readU64(value);
+        break;
+      case A_MODE:
+        command.mode = readU64(value);
+        break;
+      case A_UID:
+        command.uid = readU64(value);
+        break;
+      case A_GID:
+        command.gid = readU64(value);
+        break;
+      case A_RDEV:
+        command.rdev = readU64(value);
+        break;
+      case A_CTIME:
+        command.ctime = readTimespec(value);
+        break;
+      case A_MTIME:
+        command.mtime = readTimespec(value);
+        break;
+      case A_ATIME:
+        command.atime = readTimespec(value);
+        break;
+      case A_XATTR_NAME:
+        command.xattrName = value.toString("utf-8");
+        break;
+      case A_XATTR_DATA:
+        command.xattrData = Buffer.from(value);
+        break;
+      case A_PATH:
+        command.path = value.toString("utf-8");
+        break;
+      case A_PATH_TO:
+        command.pathTo = value.toString("utf-8");
+        break;
+      case A_PATH_LINK:
+        command.pathLink = value.toString("utf-8");
+        break;
+      case A_FILE_OFFSET:
+        command.offset = readU64(value);
+        break;
+      case A_DATA:
+        // Encoded writes report their logical length separately
+        if (command.length === undefined) {
+          command.length = value.length;
+        }
+        break;
+      case A_CLONE_UUID:
+        command.cloneUuid = formatUuid(value);
+        break;
+      case A_CLONE_PATH:
+        command.clonePath = value.toString("utf-8");
+        break;
+      case A_CLONE_OFFSET:
+        command.cloneOffset = readU64(value);
+        break;
+      case A_CLONE_LEN:
+        command.cloneLength = readU64(value);
+        break;
+      case A_UNENCODED_FILE_LEN:
+        command.length = readU64(value);
+        break;
+    }
+  }
+
+  return command;
+}
+
+/**
+ * Decode a raw btrfs send stream (v1, v2 or v3) into commands.
+ * Accepts any chunked byte source, e.g. the stdout of `btrfs send` or a
+ * file read stream. Concatenated streams are supported.
+ */
+export async function* decodeSendStream(
+  source: AsyncIterable<Uint8Array>
+): AsyncGenerator<SendCommand> {
+  let buffer: Buffer = Buffer.alloc(0);
+  let version = 0; // 0 = expecting a stream header
+
+  for await (const chunk of source) {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : Buffer.from(chunk);
+    let pos = 0;
+
+    while (true) {
+      if (version === 0) {
+        if (buffer.length - pos < STREAM_HEADER_SIZE) break;
+        if (!buffer.subarray(pos, pos + STREAM_MAGIC.length).equals(STREAM_MAGIC)) {
+          throw new Error("Not a btrfs send stream (bad magic)");
+        }
+        version = buffer.readUInt32LE(pos + STREAM_MAGIC.length);
+        if (version < 1 || version > 3) {
+          throw new Error(`Unsupported send stream version ${version}`);
+        }
+        pos += STREAM_HEADER_SIZE;
+        continue;
+      }
+
+      if (buffer.length - pos < COMMAND_HEADER_SIZE) break;
+      const length = buffer.readUInt32LE(pos);
+      if (buffer.length - pos < COMMAND_HEADER_SIZE + length) break;
+
+      const cmd = buffer.readUInt16LE(pos + 4);
+      const payload = buffer.subarray(pos + COMMAND_HEADER_SIZE, pos + COMMAND_HEADER_SIZE + length);
+      pos += COMMAND_HEADER_SIZE + length;
+
+      const type = COMMAND_TYPES[cmd];
+      if (!type) continue; // Unknown command from a newer kernel
+
+      const command = decodeCommand(type, payload, version);
+
+      // A new stream header may follow the end command
+      if (type === "end") {
+        version = 0;
+      }
+
+      yield command;
+    }
+
+    buffer = buffer.subarray(pos);
+  }
+
+  if (buffer.length > 0) {
+    throw new Error("Truncated send stream");
+  }
+}
+
+/**
+ * Check if a path is an orphan object (o<ino>-<gen>-<idx>)
+ */
+export function isOrphanPath(path: string): boolean {
+  return /^o\d+-\d+-\d+(\/|$)/.test(path);
+}
+
+function orphanInode(path: string): number | undefined {
+  const match = path.match(/^o(\d+)-\d+-\d+$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+type NodeKind = "dir" | "file" | "symlink";
+
+// Write maps of heavily fragmented files are coalesced to this many ranges
+const MAX_WRITE_RANGES = 2048;
+// Clone sources listed per file; bytes are still counted beyond this
+const MAX_CLONE_RANGES = 256;
+
+// A path touched by the stream, in a virtual tree of the receiving subvolume
+interface PathNode {
+  name: string;
+  parent: PathNode | null;
+  children: Map<string, PathNode>;
+  origPath: string | null; // path in the parent snapshot, null if created by the stream
+  kind?: NodeKind;
+  ino?: number;
+  linkTarget?: PathNode; // existing name this hardlink shares an inode with
+  tracked: boolean; // touched by a command (not just an ancestor of one)
+  moved: boolean; // renamed itself (not only through a parent directory)
+  deleted: boolean;
+  modification?: "write" | "clone" | "truncate";
+  ranges?: ByteRange[]; // merged byte ranges written or cloned
+  cloneRanges?: ByteRange[]; // merged byte ranges cloned from other files
+  clones?: PendingClone[];
+  fileSize?: number; // size set by truncate
+  offset?: number;
+  metadata?: NodeMetadata;
+}
+
+// A clone whose source may still be under a temporary orphan name
+interface PendingClone extends Omit<CloneRange, "path"> {
+  source: PathNode | string;
+}
+
+// Latest metadata set by the stream, in display form
+interface NodeMetadata {
+  mode?: string;
+  owner?: string;
+  mtime?: string;
+  xattrs: Map<string, string | undefined>; // undefined when removed
+}
+
+export interface ChangeBuilderOptions {
+  // Report chmod/chown/utimes/xattr changes of existing paths
+  metadata?: boolean;
+}
+
+const CREATE_KINDS: Partial<Record<SendCommandType, NodeKind>> = {
+  mkfile: "file",
+  mknod: "file",
+  mkfifo: "file",
+  mksock: "file",
+  link: "file",
+  mkdir: "dir",
+  symlink: "symlink",
+};
+
+function creationType(kind: NodeKind | undefined): FileChange["type"] {
+  if (kind === "dir") return "mkdir";
+  if (kind === "symlink") return "symlink";
+  return "link";
+}
+
+/**
+ * Record a clone, extending the previous one when both the source and
+ * destination ranges continue where it ended
+ */
+function addClone(node: PathNode, clone: PendingClone) {
+  const clones = (node.clones ??= []);
+  const last = clones[clones.length - 1];
+  if (
+    last &&
+    last.source === clone.source &&
+    last.offset + last.length === clone.offset &&
+    last.sourceOffset + last.length === clone.sourceOffset
+  ) {
+    last.length += clone.length;
+  } else if (clones.length < MAX_CLONE_RANGES) {
+    clones.push(clone);
+  }
+}
+
+/**
+ * Turn send commands into FileChange events.
+ *
+ * btrfs send creates new inodes under temporary orphan names, moves deleted
+ * ones to orphan names before removing them, and may rename the same inode
+ * several times. The builder replays the commands on a virtual path tree so
+ * every inode keeps its original path, whatever happens to it or its parents.
+ *
+ * `push` returns provisional changes as soon as a command is seen, for live
+ * progress. `finish` returns the net effect: one change per path (added,
+ * modified, deleted, renamed or type changed), plus one change per changed
+ * metadata attribute when metadata mode is enabled.
+ */
+export function createChangeBuilder(options: ChangeBuilderOptions = {}) {
+  const root: PathNode = {
+    name: "",
+    parent: null,
+    children: new Map(),
+    origPath: "",
+    tracked: false,
+    moved: false,
+    deleted: false,
+  };
+  // Touched nodes in first-seen order
+  const touched: PathNode[] = [];
+
+  const track = (node: PathNode): PathNode => {
+    if (!node.tracked) {
+      node.tracked = true;
+      touched.push(node);
+    }
+    return node;
+  };
+
+  // Find the node for a path, creating untouched ancestors on the way
+  const resolve = (path: string): PathNode => {
+    let node = root;
+    for (const name of path.split("/").filter(Boolean)) {
+      let child = node.children.get(name);
+      if (!child) {
+        child = {
+          name,
+          parent: node,
+          children: new Map(),
+          origPath: node.origPath === null
+            ? null
+            : node.origPath ? `${node.origPath}/${name}` : name,
+          tracked: false,
+          moved: false,
+          deleted: false,
+        };
+        node.children.set(name, child);
+      }
+      node = child;
+    }
+    return node;
+  };
+
+  const pathOf = (node: PathNode): string | null => {
+    const names: string[] = [];
+    let current: PathNode | null = node;
+    while (current && current !== root) {
+      names.unshift(current.name);
+      current = current.parent;
+    }
+    return current === root ? names.join("/") : null;
+  };
+
+  const detach = (node: PathNode) => {
+    node.parent?.children.delete(node.name);
+    node.parent = null;
+  };
+
+  const remove = (node: PathNode) => {
+    track(node).deleted = true;
+    detach(node);
+  };
+
+  // Place a node at a path, replacing whatever was there
+  const attach = (node: PathNode, path: string) => {
+    const slashIndex = path.lastIndexOf("/");
+    const parent = slashIndex === -1 ? root : resolve(path.slice(0, slashIndex));
+    const name = path.slice(slashIndex + 1);
+    const existing = parent.children.get(name);
+    if (existing && existing !== node) {
+      remove(existing);
+    }
+    detach(node);
+    node.name = name;
+    node.parent = parent;
+    parent.children.set(name, node);
+  };
+
+  const push = (command: SendCommand): FileChange[] => {
+    const path = command.path ?? "";
+
+    switch (command.type) {
+      case "mkfile":
+      case "mkdir":
+      case "mknod":
+      case "mkfifo":
+      case "mksock":
+      case "symlink":
+      case "link": {
+        // Hardlinks name an inode that already has another name
+        const linkTarget = command.type === "link" && command.pathLink
+          ? resolve(command.pathLink)
+          : undefined;
+        const node = track({
+          name: "",
+          parent: null,
+          children: new Map(),
+          origPath: null,
+          kind: CREATE_KINDS[command.type],
+          ino: command.ino ?? linkTarget?.ino ?? orphanInode(command.pathLink ?? path),
+          linkTarget,
+          tracked: false,
+          moved: false,
+          deleted: false,
+        });
+        attach(node, path);
+        if (isOrphanPath(path)) return [];
+
+        const change: FileChange = { type: creationType(node.kind), path, ino: node.ino };
+        if (linkTarget && !isOrphanPath(command.pathLink!)) {
+          change.linkedTo = command.pathLink;
+        }
+        return [change];
+      }
+
+      case "rename": {
+        const dest = command.pathTo ?? "";
+        const node = track(resolve(path));
+        node.ino ??= orphanInode(dest) ?? orphanInode(path);
+        node.moved = true;
+        attach(node, dest);
+
+        if (isOrphanPath(dest)) return [];
+        if (node.origPath === null) {
+          return [{ type: creationType(node.kind), path: dest, ino: node.ino }];
+        }
+        if (node.origPath === dest) return [];
+        return [{ type: "rename", path: dest, oldPath: node.origPath, ino: node.ino }];
+      }
+
+      case "rmdir":
+      case "unlink": {
+        const node = resolve(path);
+        node.kind ??= command.type === "rmdir" ? "dir" : "file";
+        remove(node);
+        if (node.origPath === null) return [];
+        return [{ type: command.type, path: node.origPath, ino: node.ino }];
+      }
+
+      case "write":
+      case "encoded_write":
+      case "clone":
+      case "truncate": {
+        const node = track(resolve(path));
+        const modification = command.type === "encoded_write" ? "write" : command.type;
+        // Writes win over clones, clones over truncates
+        if (node.modification !== "write" && (modification !== "truncate" || !node.modification)) {
+          node.modification = modification;
+        }
+
+        const change: FileChange = { type: modification, path };
+        if (command.type === "clone") {
+          change.offset = command.offset;
+          change.size = command.cloneLength;
+          if (command.offset !== undefined && command.cloneLength) {
+            addRange((node.cloneRanges ??= []), command.offset, command.offset + command.cloneLength);
+            if (command.clonePath !== undefined) {
+              const clone = {
+                // Sources created by this stream are renamed later
+                source: isOrphanPath(command.clonePath) ? resolve(command.clonePath) : command.clonePath,
+                sourceOffset: command.cloneOffset ?? 0,
+                offset: command.offset,
+                length: command.cloneLength,
+              };
+              addClone(node, clone);
+              change.clones = [{ ...clone, path: command.clonePath }];
+            }
+          }
+        } else if (command.type !== "truncate") {
+          change.offset = command.offset;
+          change.size = command.length;
+        }
+        if (change.offset !== undefined && change.size) {
+          addRange((node.ranges ??= []), change.offset, change.offset + change.size);
+        }
+        if (command.type === "truncate") {
+          node.fileSize = command.size;
+        }
+        node.offset ??= change.offset;
+
+        // Writes to new files are part of their creation
+        if (node.origPath === null || isOrphanPath(path)) return [];
+        return [change];
+      }
+
+      case "chmod":
+      case "chown":
+      case "utimes":
+      case "set_xattr":
+      case "remove_xattr": {
+        // The subvolume root has no path to show
+        if (!options.metadata || !path) return [];
+        const node = track(resolve(path));
+        const metadata: NodeMetadata = (node.metadata ??= { xattrs: new Map() });
+
+        if (command.type === "chmod" && command.mode !== undefined) {
+          metadata.mode = formatMode(command.mode);
+        } else if (command.type === "chown" && command.uid !== undefined && command.gid !== undefined) {
+          metadata.owner = formatOwner(command.uid, command.gid);
+        } else if (command.type === "utimes" && command.mtime) {
+          metadata.mtime = command.mtime.toISOString();
+        } else if (command.type === "set_xattr" && command.xattrName) {
+          metadata.xattrs.set(command.xattrName, formatXattrValue(command.xattrData ?? Buffer.alloc(0)));
+        } else if (command.type === "remove_xattr" && command.xattrName) {
+          metadata.xattrs.set(command.xattrName, undefined);
+        }
+        // Metadata is only reported with the net changes
+        return [];
+      }
+
+      default:
+        // subvol/snapshot/end and update_extent are not reported
+        return [];
+    }
+  };
+
+  // Inode identity of a new name; hardlinks point at the other name's final path
+  const linkInfo = (node: PathNode): Pick<FileChange, "ino" | "linkedTo"> => {
+    const target = node.linkTarget;
+    if (!target) return { ino: node.ino };
+
+    const targetPath = target.deleted ? null : pathOf(target);
+    return {
+      ino: node.ino ?? target.ino,
+      linkedTo: targetPath !== null && !isOrphanPath(targetPath) ? targetPath : undefined,
+    };
+  };
+
+  const writtenBytes = (node: PathNode): number | undefined =>
+    node.ranges ? rangeBytes(node.ranges) : undefined;
+
+  // Bytes that came from clones, and where they came from
+  const cloneInfo = (node: PathNode): Pick<FileChange, "clonedBytes" | "clones"> => {
+    if (!node.cloneRanges) return {};
+    const clones = node.clones?.map(({ source, ...clone }) => ({
+      ...clone,
+      path: typeof source === "string" ? source : (pathOf(source) ?? source.origPath ?? ""),
+    }));
+    return { clonedBytes: rangeBytes(node.cloneRanges), clones };
+  };
+
+  // Changed regions of an existing file
+  const writeMap = (node: PathNode): Pick<FileChange, "size" | "ranges" | "fileSize" | "clonedBytes" | "clones"> => {
+    if (!node.ranges) return { fileSize: node.fileSize };
+    return {
+      size: writtenBytes(node),
+      ranges: coalesceRanges(node.ranges, MAX_WRITE_RANGES),
+      fileSize: node.fileSize,
+      ...cloneInfo(node),
+    };
+  };
+
+  const metadataChanges = (node: PathNode, path: string): FileChange[] => {
+    if (!node.metadata) return [];
+    const { mode, owner, mtime, xattrs } = node.metadata;
+    const base = { path, oldPath: node.origPath !== path ? node.origPath! : undefined, ino: node.ino };
+    const changes: FileChange[] = [];
+
+    if (mode !== undefined) {
+      changes.push({ ...base, type: "chmod", metadata: { attribute: "mode", newValue: mode } });
+    }
+    if (owner !== undefined) {
+      changes.push({ ...base, type: "chown", metadata: { attribute: "owner", newValue: owner } });
+    }
+    if (mtime !== undefined) {
+      changes.push({ ...base, type: "utimes", metadata: { attribute: "mtime", newValue: mtime } });
+    }
+    for (const [name, value] of xattrs) {
+      changes.push({ ...base, type: "xattr", metadata: { attribute: name, newValue: value } });
+    }
+    return changes;
+  };
+
+  const finish = (): FileChange[] => {
+    const changes: FileChange[] = [];
+    const added = new Map<string, PathNode>(); // final path -> created node
+    const deleted = new Map<string, PathNode>(); // original path -> removed node
+
+    for (const node of touched) {
+      const path = node.deleted ? null : pathOf(node);
+      // Inodes left under an orphan name are gone from the new snapshot
+      const gone = path === null || isOrphanPath(path);
+
+      if (node.origPath === null) {
+        if (!gone) added.set(path, node);
+        continue;
+      }
+      if (gone) {
+        deleted.set(node.origPath, node);
+        continue;
+      }
+
+      if (node.moved && path !== node.origPath) {
+        changes.push({ type: "rename", path, oldPath: node.origPath, ino: node.ino, ...writeMap(node) });
+      } else if (node.modification) {
+        changes.push({
+          type: node.modification,
+          path,
+          offset: node.offset,
+          ...writeMap(node),
+          ino: node.ino,
+        });
+      }
+      // Metadata of new inodes is part of their creation
+      changes.push(...metadataChanges(node, path));
+    }
+
+    for (const [path, node] of added) {
+      const replaced = deleted.get(path);
+      const link = linkInfo(node);
+      if (replaced) {
+        // A new inode took the place of an old one
+        deleted.delete(path);
+        const typeChanged = (replaced.kind === "dir") !== (node.kind === "dir");
+        changes.push({ type: typeChanged ? "typechange" : "write", path, size: writtenBytes(node), ...cloneInfo(node), ...link });
+      } else {
+        changes.push({ type: creationType(node.kind), path, size: writtenBytes(node), ...cloneInfo(node), ...link });
+      }
+    }
+
+    for (const [path, node] of deleted) {
+      changes.push({ type: node.kind === "dir" ? "rmdir" : "unlink", path, ino: node.ino });
+    }
+
+    return changes;
+  };
+
+  return { push, finish };
+}
+
+export interface SendProcess {
+  stdout: Readable;
+  pid?: number;
+  kill: () => void;
+  // Resolves with an error message if btrfs send failed, null otherwise
+  result: Promise<string | null>;
+}
+
+/**
+ * Spawn `btrfs send -p <parent> <snapshot>` and expose its raw stdout
+ * Arguments are passed directly (no shell involved)
+ */
+export function spawnBtrfsSend(
+  parentPath: string,
+  snapshotPath: string,
+  signal?: AbortSignal
+): SendProcess {
+  // The process is killed when the signal aborts
+  const proc = spawn("btrfs", ["send", "-p", parentPath, snapshotPath], {
+    stdio: ["ignore", "pipe", "pipe"],
+    signal,
+  });
+
+  let stderr = "";
+  proc.stderr.on("data", (data) => {
+    stderr += data.toString();
+  });
+
+  const result = new Promise<string | null>((resolve) => {
+    proc.on("error", (error) => resolve(`btrfs send failed: ${error.message}`));
+    proc.on("close", (code) => {
+      resolve(code === 0 ? null : `btrfs send failed: ${stderr.trim() || `exit code ${code}`}`);
+    });
+  });
+
+  return {
+    stdout: proc.stdout,
+    pid: proc.pid,
+    kill: () => proc.kill(),
+    result,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getSnapperSource, parseSnapperInfo } from "./snapper.server";
+
+// As written by snapper 0.10
+const POST_INFO = `<?xml version="1.0"?>
+<snapshot>
+  <type>post</type>
+  <num>43</num>
+  <date>2026-01-28 10:00:01</date>
+  <pre_num>42</pre_num>
+  <description>zypp(zypper) &amp; kernel &lt;6.8&gt;</description>
+  <cleanup>number</cleanup>
+  <userdata>
+    <key>important</key>
+    <value>yes</value>
+  </userdata>
+  <userdata>
+    <key>note</key>
+    <value></value>
+  </userdata>
+</snapshot>
+`;
+
+const SINGLE_INFO = `<?xml version="1.0"?>
+<snapshot>
+  <type>single</type>
+  <num>1</num>
+  <date>2026-01-01 00:00:00</date>
+  <description>first root filesystem</description>
+</snapshot>
+`;
+
+describe("parseSnapperInfo", () => {
+  test("reads a post snapshot with its pre number and userdata", () => {
+    assert.deepEqual(parseSnapperInfo(POST_INFO), {
+      number: 43,
+      type: "post",
+      preNumber: 42,
+      description: "zypp(zypper) & kernel <6.8>",
+      cleanup: "number",
+      userdata: { important: "yes", note: "" },
+    });
+  });
+
+  test("leaves out what a single snapshot doesn't have", () => {
+    assert.deepEqual(parseSnapperInfo(SINGLE_INFO), {
+      number: 1,
+      type: "single",
+      preNumber: undefined,
+      description: "first root filesystem",
+      cleanup: undefined,
+      userdata: {},
+    });
+  });
+
+  test("ignores a pre number on anything but post snapshots", () => {
+    const pre = POST_INFO.replace("<type>post</type>", "<type>pre</type>");
+    assert.equal(parseSnapperInfo(pre)?.preNumber, undefined);
+  });
+
+  test("rejects files that aren't snapshot descriptions", () => {
+    assert.equal(parseSnapperInfo(""), null);
+    assert.equal(parseSnapperInfo("<snapshot><type>single</type></snapshot>"), null);
+    assert.equal(parseSnapperInfo(SINGLE_INFO.replace("single", "timeline")), null);
+  });
+});
+
+describe("getSnapperSource", () => {
+  test("finds the subvolume a snapshot directory belongs to", () => {
+    assert.equal(getSnapperSource("/@home/.snapshots/12/snapshot"), "/@home");
+    assert.equal(getSnapperSource("/.snapshots/3/snapshot"), "/");
+    assert.equal(getSnapperSource("/@snapshots/7/snapshot"), "/@");
+  });
+
+  test("rejects other paths", () => {
+    assert.equal(getSnapperSource("/@home/.snapshots/12"), null);
+    assert.equal(getSnapperSource("/@home/.snapshots/latest/snapshot"), null);
+  });
+});
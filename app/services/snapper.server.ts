@@ -0,0 +1,95 @@
+import { readFile } from "fs/promises";
+import type { Subvolume, Snapshot, SnapperInfo } from "~/types";
+
+const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
+
+// <subvolume>/.snapshots/<n>/snapshot, or @snapshots/<n>/snapshot for @
+const SNAPPER_PATH = /^(.*)\/(\.snapshots|@snapshots)\/(\d+)\/snapshot$/;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name]);
+}
+
+function getElement(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * Parse snapper's info.xml
+ * Returns null if it isn't a snapper snapshot description
+ */
+export function parseSnapperInfo(xml: string): SnapperInfo | null {
+  const number = Number(getElement(xml, "num"));
+  const type = getElement(xml, "type");
+  if (!Number.isInteger(number) || (type !== "single" && type !== "pre" && type !== "post")) {
+    return null;
+  }
+
+  const userdata: Record<string, string> = {};
+  for (const [, entry] of xml.matchAll(/<userdata>([\s\S]*?)<\/userdata>/g)) {
+    const key = getElement(entry, "key");
+    if (key) userdata[key] = getElement(entry, "value") ?? "";
+  }
+
+  const preNumber = Number(getElement(xml, "pre_num"));
+  return {
+    number,
+    type,
+    preNumber: type === "post" && Number.isInteger(preNumber) ? preNumber : undefined,
+    description: getElement(xml, "description") || undefined,
+    cleanup: getElement(xml, "cleanup") || undefined,
+    userdata,
+  };
+}
+
+/**
+ * Source subvolume of a snapper snapshot path, null if it isn't one
+ */
+export function getSnapperSource(snapshotPath: string): string | null {
+  const match = snapshotPath.match(SNAPPER_PATH);
+  if (!match) return null;
+  return match[2] === "@snapshots" ? `${match[1]}/@` : match[1] || "/";
+}
+
+async function readSnapperInfo(snapshotPath: string): Promise<SnapperInfo | null> {
+  // info.xml sits next to the snapshot subvolume
+  const infoPath = `${BTRFS_ROOT}${snapshotPath.replace(/\/snapshot$/, "")}/info.xml`;
+  try {
+    return parseSnapperInfo(await readFile(infoPath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Snapper snapshots of a subvolume with their info.xml, in snapshot number order
+ * Snapshots without a readable info.xml are left out
+ */
+export async function getSnapperSnapshots(subvolumes: Subvolume[], subvolumePath: string): Promise<Snapshot[]> {
+  const snapshots: Snapshot[] = [];
+
+  for (const sv of subvolumes) {
+    if (getSnapperSource(sv.path) !== subvolumePath) continue;
+    const snapper = await readSnapperInfo(sv.path);
+    if (!snapper) continue;
+
+    snapshots.push({
+      ...sv,
+      isSnapshot: true,
+      sourceSubvolume: subvolumePath,
+      snapper,
+    });
+  }
+
+  snapshots.sort((a, b) => a.snapper!.number - b.snapper!.number);
+  return snapshots;
+}
@@ -0,0 +1,97 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Subvolume } from "~/types";
+
+// Read when the layouts load
+process.env.SNAPSHOT_PATTERN = "^/snaps/(?<source>[^/]+)-(?<class>hourly|daily)-(?<date>\\d{8}T\\d{4})$";
+const { isNamingLayout, parseNameDate, parseSnapshotPath, parseTimeshiftTags } = await import("./snapshot-layout.server");
+
+function subvolume(path: string, isSnapshot = false): Subvolume {
+  return { id: 256, path, parentId: null, uuid: "", parentUuid: null, receivedUuid: null, createdAt: new Date(0), isSnapshot };
+}
+
+const SUBVOLUMES = [subvolume("/@home"), subvolume("/@"), subvolume("/snaps/@home.20260101", true)];
+
+describe("parseNameDate", () => {
+  test("reads the date formats backup tools use, as local time", () => {
+    assert.deepEqual(parseNameDate("20260128T1005"), new Date(2026, 0, 28, 10, 5));
+    assert.deepEqual(parseNameDate("2026-01-28_10-05-01"), new Date(2026, 0, 28, 10, 5, 1));
+    assert.deepEqual(parseNameDate("daily-2026-01-28"), new Date(2026, 0, 28));
+  });
+
+  test("rejects names without a valid date", () => {
+    assert.equal(parseNameDate("daily.0"), null);
+    assert.equal(parseNameDate("2026-02-30"), null);
+  });
+});
+
+describe("parseSnapshotPath", () => {
+  test("btrbk: the subvolume named like the snapshot", () => {
+    assert.deepEqual(parseSnapshotPath("btrbk", "/snaps/@home.20260128T1005", SUBVOLUMES), {
+      source: "/@home",
+      createdAt: new Date(2026, 0, 28, 10, 5),
+    });
+    // Seconds, a time zone and a duplicate counter
+    assert.deepEqual(parseSnapshotPath("btrbk", "/snaps/@.20260128T100501+0100_1", SUBVOLUMES), {
+      source: "/@",
+      createdAt: new Date(2026, 0, 28, 10, 5, 1),
+    });
+    // Date only, from a subvolume that isn't listed
+    assert.deepEqual(parseSnapshotPath("btrbk", "/backup/data.20260128"), {
+      source: "/data",
+      createdAt: new Date(2026, 0, 28),
+    });
+    assert.equal(parseSnapshotPath("btrbk", "/snaps/@home"), null);
+  });
+
+  test("timeshift: the subvolume named under the dated directory", () => {
+    assert.deepEqual(parseSnapshotPath("timeshift", "/timeshift-btrfs/snapshots/2026-01-28_10-00-01/@home"), {
+      source: "/@home",
+      createdAt: new Date(2026, 0, 28, 10, 0, 1),
+    });
+    assert.equal(parseSnapshotPath("timeshift", "/timeshift-btrfs/snapshots/2026-01-28_10-00-01"), null);
+  });
+
+  test("regex: the named groups of SNAPSHOT_PATTERN", () => {
+    assert.deepEqual(parseSnapshotPath("regex", "/snaps/home-daily-20260128T1005"), {
+      source: "/home",
+      createdAt: new Date(2026, 0, 28, 10, 5),
+      retentionClass: "daily",
+    });
+    assert.equal(parseSnapshotPath("regex", "/snaps/home-weekly-20260128T1005"), null);
+  });
+
+  test("several layouts: the first that matches", () => {
+    assert.equal(parseSnapshotPath("btrbk,timeshift", "/snaps/@home.20260128T1005", SUBVOLUMES)?.source, "/@home");
+    assert.equal(parseSnapshotPath("btrbk, timeshift", "/timeshift-btrfs/snapshots/2026-01-28_10-00-01/@")?.source, "/@");
+    assert.equal(parseSnapshotPath("btrbk,timeshift", "/snaps/home-daily-20260128T1005"), null);
+  });
+
+  test("no naming layout matches nothing", () => {
+    assert.equal(parseSnapshotPath("default", "/snaps/@home.20260128T1005"), null);
+    assert.equal(parseSnapshotPath("snapper", "/@home/.snapshots/1/snapshot"), null);
+  });
+});
+
+describe("isNamingLayout", () => {
+  test("accepts naming layouts alone or listed together", () => {
+    assert.equal(isNamingLayout("btrbk"), true);
+    assert.equal(isNamingLayout("btrbk,timeshift,regex"), true);
+    assert.equal(isNamingLayout("default"), false);
+    assert.equal(isNamingLayout("btrbk,snapper"), false);
+  });
+});
+
+describe("parseTimeshiftTags", () => {
+  test("names Timeshift's schedule tags", () => {
+    const info = JSON.stringify({ created: "1769594401", "sys-distro": "Ubuntu 24.04", comments: "", tags: "D W" });
+    assert.equal(parseTimeshiftTags(info), "daily, weekly");
+    assert.equal(parseTimeshiftTags(JSON.stringify({ tags: "O" })), "ondemand");
+  });
+
+  test("has no class without tags", () => {
+    assert.equal(parseTimeshiftTags(JSON.stringify({ tags: "" })), undefined);
+    assert.equal(parseTimeshiftTags(JSON.stringify({})), undefined);
+    assert.equal(parseTimeshiftTags("not json"), undefined);
+  });
+});
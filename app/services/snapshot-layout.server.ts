@@ -0,0 +1,147 @@
+import { readFile } from "fs/promises";
+import type { Subvolume } from "~/types";
+
+const BTRFS_ROOT = process.env.BTRFS_ROOT || "/";
+// Free-form layout: a regex over snapshot paths with named groups
+// source, date and optionally class
+const SNAPSHOT_PATTERN = process.env.SNAPSHOT_PATTERN;
+
+// 2026-01-28, 2026-01-28_00:00:01, 2026-01-28_10-00-01, 20260128T0000
+const DATE_PATTERN = /(\d{4})-?(\d{2})-?(\d{2})(?:[T_ ]?(\d{2})[:-]?(\d{2})(?:[:-]?(\d{2}))?)?/;
+
+// btrbk: <snapshot_dir>/<name>.YYYYMMDD[Thhmm[ss]][+zzzz][_N]
+const BTRBK_PATH = /\/([^/]+)\.(\d{8}(?:T\d{4}(?:\d{2})?)?)(?:[+-]\d{4})?(?:_\d+)?$/;
+
+// Timeshift: timeshift-btrfs/snapshots/<date>/@ or @home
+const TIMESHIFT_PATH = /\/timeshift-btrfs\/snapshots\/(\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2})\/(@[^/]*)$/;
+
+// Timeshift's schedule tags, kept in info.json next to the snapshot
+const TIMESHIFT_TAGS: Record<string, string> = {
+  O: "ondemand",
+  B: "boot",
+  H: "hourly",
+  D: "daily",
+  W: "weekly",
+  M: "monthly",
+};
+
+const NAMING_LAYOUTS = ["btrbk", "timeshift", "regex"];
+
+export interface SnapshotNameInfo {
+  source: string; // Source subvolume path
+  createdAt?: Date;
+  retentionClass?: string; // e.g. hourly, daily, weekly
+}
+
+/**
+ * Read a date and time from a snapshot name, as local time
+ * Returns null if there is none
+ */
+export function parseNameDate(name: string): Date | null {
+  const match = name.match(DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const date = new Date(+year, +month - 1, +day, +hour, +minute, +second);
+  return isNaN(date.getTime()) || date.getMonth() !== +month - 1 ? null : date;
+}
+
+/**
+ * btrbk names snapshots after the basename of their subvolume
+ */
+function parseBtrbkPath(path: string, subvolumes: Subvolume[]): SnapshotNameInfo | null {
+  const match = path.match(BTRBK_PATH);
+  if (!match) return null;
+  const [, name, timestamp] = match;
+  const source = subvolumes.find((sv) => !sv.isSnapshot && sv.path.split("/").pop() === name);
+  return {
+    source: source?.path ?? `/${name}`,
+    createdAt: parseNameDate(timestamp) ?? undefined,
+  };
+}
+
+function parseTimeshiftPath(path: string): SnapshotNameInfo | null {
+  const match = path.match(TIMESHIFT_PATH);
+  if (!match) return null;
+  return {
+    source: `/${match[2]}`,
+    createdAt: parseNameDate(match[1]) ?? undefined,
+  };
+}
+
+let snapshotPattern: RegExp | null = null;
+
+function parseRegexPath(path: string): SnapshotNameInfo | null {
+  if (!SNAPSHOT_PATTERN) {
+    throw new Error("SNAPSHOT_LAYOUT=regex needs SNAPSHOT_PATTERN");
+  }
+  snapshotPattern ??= new RegExp(SNAPSHOT_PATTERN);
+
+  const groups = path.match(snapshotPattern)?.groups;
+  if (!groups?.source) return null;
+  return {
+    source: groups.source.startsWith("/") ? groups.source : `/${groups.source}`,
+    createdAt: groups.date ? parseNameDate(groups.date) ?? undefined : undefined,
+    retentionClass: groups.class || undefined,
+  };
+}
+
+function parseLayoutPath(layout: string, path: string, subvolumes: Subvolume[]): SnapshotNameInfo | null {
+  switch (layout) {
+    case "btrbk":
+      return parseBtrbkPath(path, subvolumes);
+    case "timeshift":
+      return parseTimeshiftPath(path);
+    case "regex":
+      return parseRegexPath(path);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Derive the source subvolume, time and retention class of a snapshot
+ * from its path under a naming convention (btrbk, timeshift or regex)
+ * layout may list several, e.g. "btrbk,timeshift"; the first that matches
+ * wins. Returns null if the path isn't a snapshot under any of them
+ */
+export function parseSnapshotPath(layout: string, path: string, subvolumes: Subvolume[] = []): SnapshotNameInfo | null {
+  for (const name of layout.split(",")) {
+    const parsed = parseLayoutPath(name.trim(), path, subvolumes);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+export function isNamingLayout(layout: string): boolean {
+  return layout.split(",").every((name) => NAMING_LAYOUTS.includes(name.trim()));
+}
+
+/**
+ * Parse the tags of Timeshift's info.json into a retention class,
+ * e.g. "D W" becomes "daily, weekly"
+ */
+export function parseTimeshiftTags(json: string): string | undefined {
+  try {
+    const { tags } = JSON.parse(json) as { tags?: unknown };
+    if (typeof tags !== "string") return undefined;
+    const classes = tags.split(/\s+/).filter(Boolean).map((tag) => TIMESHIFT_TAGS[tag] ?? tag);
+    return classes.length > 0 ? classes.join(", ") : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Retention class of a snapshot that its name doesn't carry
+ * Timeshift keeps it in info.json next to the snapshot subvolume; btrbk
+ * names have none
+ */
+export async function readRetentionClass(path: string): Promise<string | undefined> {
+  if (!TIMESHIFT_PATH.test(path)) return undefined;
+  const infoPath = `${BTRFS_ROOT}${path.slice(0, path.lastIndexOf("/"))}/info.json`;
+  try {
+    return parseTimeshiftTags(await readFile(infoPath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,106 @@
+import { basename, dirname } from 'path';
+import { getBackend, getSnapshots, getSubvolumes } from './index.server';
+import { indexLatestSnapshot } from './file-history.server';
+import { recordAudit } from './audit.server';
+import { ForbiddenError, InvalidRequestError, NotFoundError } from './errors.server';
+
+// Creating and deleting snapshots from the UI is off unless this is set
+const ALLOW_SNAPSHOT_MANAGEMENT = process.env.ALLOW_SNAPSHOT_MANAGEMENT === 'true';
+
+/**
+ * Whether the UI may create and delete snapshots
+ * Needs the config flag and a backend that supports it
+ */
+export function isManagementEnabled(): boolean {
+  const backend = getBackend();
+  return ALLOW_SNAPSHOT_MANAGEMENT && !!backend.createSnapshot && !!backend.deleteSnapshot;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Default name for a new snapshot, <subvolume>.YYYYMMDDThhmm like btrbk
+ */
+export function suggestSnapshotName(subvolumePath: string, date: Date = new Date()): string {
+  const name = basename(subvolumePath) || 'root';
+  return `${name}.${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
+
+/**
+ * Take a read-only snapshot of a subvolume next to its newest snapshot
+ * (or next to the subvolume itself if it has none), then index it
+ */
+export async function createSnapshot(subvolumePath: string, name: string): Promise<string> {
+  const backend = getBackend();
+  if (!isManagementEnabled() || !backend.createSnapshot) {
+    throw new ForbiddenError('Snapshot management is disabled');
+  }
+  if (!/^[\w@:+-][\w.@:+-]*$/.test(name)) {
+    throw new InvalidRequestError(`Invalid snapshot name: ${name}`);
+  }
+
+  const subvolumes = await getSubvolumes();
+  if (!subvolumes.some(sv => sv.path === subvolumePath && !sv.isSnapshot)) {
+    throw new NotFoundError(`Subvolume not found: ${subvolumePath}`);
+  }
+
+  const snapshots = await getSnapshots(subvolumePath);
+  const latest = snapshots[snapshots.length - 1];
+  // Snapper numbers its snapshots and keeps info.xml next to them
+  if (latest && basename(latest.path) === 'snapshot') {
+    throw new InvalidRequestError('Snapper snapshots must be created with snapper');
+  }
+  const dir = dirname(latest?.path ?? subvolumePath);
+  const snapshotPath = `${dir === '/' ? '' : dir}/${name}`;
+  if (subvolumes.some(sv => sv.path === snapshotPath)) {
+    throw new InvalidRequestError(`Snapshot already exists: ${snapshotPath}`);
+  }
+
+  try {
+    await backend.createSnapshot(subvolumePath, snapshotPath);
+    recordAudit('create', subvolumePath, snapshotPath);
+  } catch (error) {
+    recordAudit('create', subvolumePath, snapshotPath, { error });
+    throw error;
+  }
+
+  // Index in the background, like the post-snapshot hook would
+  indexLatestSnapshot(subvolumePath).catch(error => {
+    console.error(`Failed to index new snapshot ${snapshotPath}:`, error);
+  });
+
+  return snapshotPath;
+}
+
+/**
+ * Delete snapshots of a subvolume, one at a time
+ * Only paths that are snapshots of the subvolume are accepted, so the
+ * subvolume itself or another subvolume's snapshots can't be deleted here.
+ * Stops at the first failure.
+ */
+export async function deleteSnapshots(subvolumePath: string, snapshotPaths: string[]): Promise<string[]> {
+  const backend = getBackend();
+  if (!isManagementEnabled() || !backend.deleteSnapshot) {
+    throw new ForbiddenError('Snapshot management is disabled');
+  }
+
+  const known = new Set((await getSnapshots(subvolumePath)).map(s => s.path));
+  const unknown = snapshotPaths.filter(path => !known.has(path));
+  if (unknown.length > 0) {
+    throw new NotFoundError(`Snapshot not found for ${subvolumePath}: ${unknown.join(', ')}`);
+  }
+
+  const deleted: string[] = [];
+  for (const snapshotPath of snapshotPaths) {
+    try {
+      await backend.deleteSnapshot(snapshotPath);
+      recordAudit('delete', subvolumePath, snapshotPath);
+      deleted.push(snapshotPath);
+    } catch (error) {
+      recordAudit('delete', subvolumePath, snapshotPath, { error });
+      throw error;
+    }
+  }
+
+  return deleted;
+}
@@ -0,0 +1,166 @@
+import { getDB } from './db.server';
+import { streamCommandChanges } from './btrfs-stream.server';
+import { summarizeChanges } from '~/utils/changes';
+import { decodeSendStream, type ChangeBuilderOptions, type SendCommand } from './send-stream.server';
+import { decodeSendDump } from './send-dump.server';
+import type { ImportedComparison } from '~/types';
+
+const SEND_STREAM_MAGIC = Buffer.from('btrfs-stream\0', 'latin1');
+
+type ImportSummary = Omit<ImportedComparison, 'changes'>;
+
+interface ImportRow {
+  id: number;
+  name: string;
+  format: 'send-stream' | 'dump';
+  snapshot_name: string | null;
+  snapshot_uuid: string | null;
+  parent_uuid: string | null;
+  changes?: string;
+  summary: string;
+  created_at: string;
+}
+
+function rowToSummary(row: ImportRow): ImportSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    format: row.format,
+    snapshotName: row.snapshot_name,
+    snapshotUuid: row.snapshot_uuid,
+    parentUuid: row.parent_uuid,
+    createdAt: new Date(row.created_at.replace(' ', 'T') + 'Z'),
+    summary: JSON.parse(row.summary)
+  };
+}
+
+/**
+ * Buffer the first bytes of a source to detect its format,
+ * then replay them followed by the rest of the source
+ */
+async function detectFormat(
+  source: AsyncIterable<Uint8Array>
+): Promise<{ format: ImportedComparison['format']; chunks: AsyncIterable<Uint8Array> }> {
+  const iterator = source[Symbol.asyncIterator]();
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+
+  while (headLength < SEND_STREAM_MAGIC.length) {
+    const { done, value } = await iterator.next();
+    if (done) break;
+    head.push(value);
+    headLength += value.length;
+  }
+
+  const prefix = Buffer.concat(head).subarray(0, SEND_STREAM_MAGIC.length);
+  const format = prefix.equals(SEND_STREAM_MAGIC) ? 'send-stream' : 'dump';
+
+  async function* replay() {
+    yield* head;
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (done) return;
+      yield value;
+    }
+  }
+
+  return { format, chunks: replay() };
+}
+
+/**
+ * Import a saved `btrfs send` stream or `btrfs receive --dump` capture
+ *
+ * The file is parsed with the same logic as live comparisons and stored
+ * as a virtual comparison that can be explored without the filesystem.
+ *
+ * @param name - Display name, usually the original file name
+ * @param source - Raw file contents
+ * @param options - Builder options, e.g. to keep metadata changes
+ * @returns The stored comparison
+ */
+export async function importChangeStream(
+  name: string,
+  source: AsyncIterable<Uint8Array>,
+  options: ChangeBuilderOptions = {}
+): Promise<ImportedComparison> {
+  const { format, chunks } = await detectFormat(source);
+  const commands = format === 'send-stream' ? decodeSendStream(chunks) : decodeSendDump(chunks);
+
+  // Remember which snapshot the stream describes
+  let header: SendCommand | null = null;
+  async function* captureHeader() {
+    for await (const command of commands) {
+      if (!header && (command.type === 'snapshot' || command.type === 'subvol')) {
+        header = command;
+      }
+      yield command;
+    }
+  }
+
+  const events = streamCommandChanges(captureHeader(), options);
+  let next = await events.next();
+  while (!next.done) {
+    next = await events.next();
+  }
+
+  const changes = next.value;
+  const summary = summarizeChanges(changes);
+  const snapshot = header as SendCommand | null;
+
+  if (!snapshot && changes.length === 0) {
+    throw new Error('No send stream commands found in file');
+  }
+
+  const db = getDB();
+  const row = db.prepare(`
+    INSERT INTO imported_comparisons (name, format, snapshot_name, snapshot_uuid, parent_uuid, changes, summary)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(
+    name,
+    format,
+    snapshot?.path || null,
+    snapshot?.uuid || null,
+    snapshot?.cloneUuid || null,
+    JSON.stringify(changes),
+    JSON.stringify(summary)
+  ) as ImportRow;
+
+  return { ...rowToSummary(row), changes };
+}
+
+/**
+ * List imported comparisons, newest first (without their changes)
+ */
+export function listImports(): ImportSummary[] {
+  const db = getDB();
+  const rows = db.prepare(`
+    SELECT id, name, format, snapshot_name, snapshot_uuid, parent_uuid, summary, created_at
+    FROM imported_comparisons
+    ORDER BY id DESC
+  `).all() as ImportRow[];
+
+  return rows.map(rowToSummary);
+}
+
+/**
+ * Get an imported comparison with all its changes
+ */
+export function getImport(id: number): ImportedComparison | null {
+  const db = getDB();
+  const row = db.prepare('SELECT * FROM imported_comparisons WHERE id = ?').get(id) as ImportRow | undefined;
+
+  if (!row) {
+    return null;
+  }
+
+  return { ...rowToSummary(row), changes: JSON.parse(row.changes!) };
+}
+
+/**
+ * Delete an imported comparison
+ */
+export function deleteImport(id: number): boolean {
+  const db = getDB();
+  return db.prepare('DELETE FROM imported_comparisons WHERE id = ?').run(id).changes > 0;
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { FileChange } from "~/types";
+import { diffTrees, type TreeDiffOptions } from "./tree-diff.server";
+
+let tmp: string;
+let oldRoot: string;
+let newRoot: string;
+
+beforeEach(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "tree-diff-"));
+  oldRoot = path.join(tmp, "old");
+  newRoot = path.join(tmp, "new");
+  await fs.mkdir(oldRoot);
+  await fs.mkdir(newRoot);
+});
+
+afterEach(async () => {
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+async function write(root: string, filePath: string, content: string) {
+  await fs.mkdir(path.dirname(path.join(root, filePath)), { recursive: true });
+  await fs.writeFile(path.join(root, filePath), content);
+}
+
+// Give a file the same mtime in both trees
+async function sameTimes(filePath: string) {
+  const time = new Date("2026-01-29T00:00:00Z");
+  await fs.utimes(path.join(oldRoot, filePath), time, time);
+  await fs.utimes(path.join(newRoot, filePath), time, time);
+}
+
+/**
+ * Copy the old tree to the new one like a snapshot: files are hardlinked,
+ * so they keep their inode numbers
+ */
+async function snapshotOldTree(dir = "") {
+  for (const entry of await fs.readdir(path.join(oldRoot, dir), { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await fs.mkdir(path.join(newRoot, entryPath));
+      await snapshotOldTree(entryPath);
+    } else {
+      await fs.link(path.join(oldRoot, entryPath), path.join(newRoot, entryPath));
+    }
+  }
+}
+
+async function diff(options?: TreeDiffOptions): Promise<FileChange[]> {
+  const walk = diffTrees(oldRoot, newRoot, options);
+  let result = await walk.next();
+  while (!result.done) result = await walk.next();
+  // Without inode numbers, which differ per run
+  return result.value
+    .map(({ ino: _, ...change }) => change)
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+describe("diffTrees", () => {
+  test("reports added, deleted, modified and retyped paths", async () => {
+    await write(oldRoot, "same.txt", "same");
+    await write(oldRoot, "modified.txt", "before");
+    await write(oldRoot, "deleted.txt", "gone");
+    await write(oldRoot, "retyped", "a file");
+    await write(oldRoot, "old-dir/inner.txt", "inner");
+    await fs.symlink("same.txt", path.join(oldRoot, "link"));
+
+    await write(newRoot, "same.txt", "same");
+    await sameTimes("same.txt");
+    await write(newRoot, "modified.txt", "after, longer");
+    await write(newRoot, "added.txt", "new");
+    await write(newRoot, "retyped/inner.txt", "now a directory");
+    await fs.symlink("added.txt", path.join(newRoot, "link"));
+
+    assert.deepEqual(await diff(), [
+      { type: "link", path: "added.txt", size: 3 },
+      { type: "unlink", path: "deleted.txt" },
+      { type: "write", path: "link", fileSize: 9 },
+      { type: "write", path: "modified.txt", fileSize: 13 },
+      { type: "rmdir", path: "old-dir" },
+      { type: "unlink", path: "old-dir/inner.txt" },
+      { type: "typechange", path: "retyped", size: undefined },
+      { type: "link", path: "retyped/inner.txt", size: 15 },
+    ]);
+  });
+
+  test("matches by path unless told the trees share inodes", async () => {
+    await write(oldRoot, "docs/a.txt", "content");
+    await write(oldRoot, "docs/b.txt", "other");
+    await snapshotOldTree();
+    await fs.rename(path.join(newRoot, "docs/a.txt"), path.join(newRoot, "docs/renamed.txt"));
+
+    assert.deepEqual(await diff(), [
+      { type: "unlink", path: "docs/a.txt" },
+      { type: "link", path: "docs/renamed.txt", size: 7 },
+    ]);
+    assert.deepEqual(await diff({ byInode: true }), [
+      { type: "rename", path: "docs/renamed.txt", oldPath: "docs/a.txt" },
+    ]);
+  });
+
+  test("reports a file replaced in place when matching by inode", async () => {
+    await write(oldRoot, "a.txt", "content");
+    await snapshotOldTree();
+    await fs.rm(path.join(newRoot, "a.txt"));
+    await write(newRoot, "a.txt", "content");
+    await sameTimes("a.txt");
+
+    assert.deepEqual(await diff(), []);
+    assert.deepEqual(await diff({ byInode: true }), [{ type: "write", path: "a.txt", fileSize: 7 }]);
+  });
+
+  test("reports new names of one inode as hardlinks", async () => {
+    await write(oldRoot, "existing.txt", "old file");
+    await snapshotOldTree();
+    await write(newRoot, "first.txt", "new file");
+    await fs.link(path.join(newRoot, "first.txt"), path.join(newRoot, "second.txt"));
+    await fs.link(path.join(newRoot, "existing.txt"), path.join(newRoot, "extra.txt"));
+
+    const changes = await diff({ byInode: true });
+    assert.deepEqual(changes[0], { type: "link", path: "extra.txt", size: 8, linkedTo: "existing.txt" });
+    // Whichever new name is walked first is the file, the other links to it
+    const [first, second] = changes.slice(1).sort((a, b) => Number(!!a.linkedTo) - Number(!!b.linkedTo));
+    assert.equal(changes.length, 3);
+    assert.deepEqual(first, { type: "link", path: first.path, size: 8 });
+    assert.deepEqual(second, { type: "link", path: second.path, size: 8, linkedTo: first.path });
+  });
+
+  test("hashes files to tell touched from rewritten", async () => {
+    await write(oldRoot, "touched.txt", "unchanged");
+    await write(oldRoot, "rewritten.txt", "version 1");
+    await write(newRoot, "touched.txt", "unchanged");
+    await write(newRoot, "rewritten.txt", "version 2");
+    const later = new Date(Date.now() + 60_000);
+    await fs.utimes(path.join(newRoot, "touched.txt"), later, later);
+    await fs.utimes(path.join(newRoot, "rewritten.txt"), later, later);
+
+    assert.deepEqual(await diff(), [
+      { type: "write", path: "rewritten.txt", fileSize: 9 },
+      { type: "write", path: "touched.txt", fileSize: 9 },
+    ]);
+    assert.deepEqual(await diff({ hash: true }), [
+      { type: "write", path: "rewritten.txt", fileSize: 9 },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { lstat, readdir, readlink } from "fs/promises";
+import { join } from "path";
+import type { FileChange } from "~/types";
+import { collapseImpliedRenames } from "~/utils/changes";
+
+// Report progress every this many entries scanned
+const PROGRESS_INTERVAL = 1000;
+
+export interface TreeDiffOptions {
+  // Hash files whose stat differs but size matches, so touched but
+  // unchanged files are not reported
+  hash?: boolean;
+  // Match entries by inode number, which is only meaningful when both
+  // trees are snapshots in one lineage; otherwise entries match by path
+  byInode?: boolean;
+  signal?: AbortSignal;
+}
+
+interface TreeEntry {
+  kind: "dir" | "file" | "symlink" | "other";
+  ino: number;
+  size: number;
+  mtime: bigint; // ns
+  ctime: bigint; // ns
+}
+
+// Relative path -> entry, without the root itself
+type Tree = Map<string, TreeEntry>;
+
+/**
+ * Walk a directory tree into a map of entries
+ * Yields the number of entries scanned so far every PROGRESS_INTERVAL
+ * Does not descend into nested subvolumes or mounts
+ */
+async function* walkTree(root: string, tree: Tree, signal?: AbortSignal): AsyncGenerator<number> {
+  const rootStat = await lstat(root);
+  const stack = [""];
+
+  while (stack.length > 0) {
+    if (signal?.aborted) {
+      throw new Error("Comparison cancelled");
+    }
+
+    const dir = stack.pop()!;
+    let names: string[];
+    try {
+      names = await readdir(join(root, dir));
+    } catch {
+      continue; // Unreadable directories look empty
+    }
+
+    for (const name of names) {
+      const path = dir ? `${dir}/${name}` : name;
+      let stat;
+      try {
+        stat = await lstat(join(root, path), { bigint: true });
+      } catch {
+        continue; // Removed while walking
+      }
+
+      const kind = stat.isDirectory() ? "dir" : stat.isFile() ? "file" : stat.isSymbolicLink() ? "symlink" : "other";
+      tree.set(path, {
+        kind,
+        ino: Number(stat.ino),
+        size: Number(stat.size),
+        mtime: stat.mtimeNs,
+        ctime: stat.ctimeNs,
+      });
+
+      if (kind === "dir" && Number(stat.dev) === rootStat.dev) {
+        stack.push(path);
+      }
+      if (tree.size % PROGRESS_INTERVAL === 0) {
+        yield tree.size;
+      }
+    }
+  }
+}
+
+function hashFile(path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(path)
+      .on("error", reject)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+function creationType(kind: TreeEntry["kind"]): FileChange["type"] {
+  if (kind === "dir") return "mkdir";
+  if (kind === "symlink") return "symlink";
+  return "link";
+}
+
+/**
+ * Diff two directory trees by walking both of them
+ *
+ * Fallback for when btrfs send can't be used: snapshots without a shared
+ * parent, writable subvolumes, or no privileges. Entries are compared by
+ * size and mtime, plus inode number and ctime when the caller knows both
+ * trees are snapshots of one subvolume, which also lets renames be
+ * followed. Every btrfs subvolume root is inode 256, so the roots can't
+ * tell. Produces one net change per path like
+ * the send stream change builder, without write maps, clones or metadata.
+ *
+ * Yields the number of entries scanned so far, returns the changes.
+ */
+export async function* diffTrees(
+  oldRoot: string,
+  newRoot: string,
+  options: TreeDiffOptions = {}
+): AsyncGenerator<number, FileChange[]> {
+  const byInode = options.byInode ?? false;
+
+  const oldTree: Tree = new Map();
+  const newTree: Tree = new Map();
+  yield* walkTree(oldRoot, oldTree, options.signal);
+  for await (const scanned of walkTree(newRoot, newTree, options.signal)) {
+    yield oldTree.size + scanned;
+  }
+
+  const newByInode = new Map<number, string[]>();
+  for (const [path, entry] of newTree) {
+    const paths = newByInode.get(entry.ino);
+    if (paths) paths.push(path);
+    else newByInode.set(entry.ino, [path]);
+  }
+
+  // Follow inodes that moved to a path they didn't have before
+  const renamedTo = new Map<string, string>(); // old path -> new path
+  const renamedFrom = new Map<string, string>(); // new path -> old path
+  if (byInode) {
+    for (const [path, entry] of oldTree) {
+      if (newTree.get(path)?.ino === entry.ino) continue;
+      const target = newByInode.get(entry.ino)?.find((candidate) =>
+        !renamedFrom.has(candidate) &&
+        oldTree.get(candidate)?.ino !== entry.ino &&
+        newTree.get(candidate)!.kind === entry.kind
+      );
+      if (target) {
+        renamedTo.set(path, target);
+        renamedFrom.set(target, path);
+      }
+    }
+  }
+
+  const contentChanged = async (oldPath: string, newPath: string, before: TreeEntry, after: TreeEntry) => {
+    if (before.kind !== after.kind) return true;
+    if (before.kind === "dir") return false; // Compared entry by entry
+    if (before.kind === "symlink") {
+      const [oldTarget, newTarget] = await Promise.all([
+        readlink(join(oldRoot, oldPath)),
+        readlink(join(newRoot, newPath)),
+      ]);
+      return oldTarget !== newTarget;
+    }
+
+    const statChanged =
+      before.size !== after.size ||
+      before.mtime !== after.mtime ||
+      (byInode && (before.ino !== after.ino || before.ctime !== after.ctime));
+    if (!statChanged) return false;
+    if (!options.hash || before.size !== after.size || before.kind !== "file") return true;
+
+    const [oldHash, newHash] = await Promise.all([
+      hashFile(join(oldRoot, oldPath)),
+      hashFile(join(newRoot, newPath)),
+    ]);
+    return oldHash !== newHash;
+  };
+
+  const changes: FileChange[] = [];
+  const modified = new Set<FileChange>();
+
+  for (const [path, after] of newTree) {
+    if (options.signal?.aborted) {
+      throw new Error("Comparison cancelled");
+    }
+
+    const fromPath = renamedFrom.get(path);
+    if (fromPath !== undefined) {
+      const change: FileChange = { type: "rename", path, oldPath: fromPath, ino: after.ino };
+      if (await contentChanged(fromPath, path, oldTree.get(fromPath)!, after)) {
+        change.fileSize = after.size;
+        modified.add(change);
+      }
+      changes.push(change);
+      continue;
+    }
+
+    // A path whose inode moved away holds something new
+    const before = renamedTo.has(path) ? undefined : oldTree.get(path);
+    if (!before) {
+      // Another name of the same inode that was already there, or added before this one
+      const names = newByInode.get(after.ino)!;
+      const other = after.kind === "dir" ? undefined : names.find((p, i) =>
+        p !== path && (i < names.indexOf(path) || (byInode && oldTree.get(p)?.ino === after.ino))
+      );
+      changes.push({
+        type: creationType(after.kind),
+        path,
+        size: after.kind === "file" ? after.size : undefined,
+        ino: after.ino,
+        ...(other !== undefined && { linkedTo: other }),
+      });
+    } else if ((before.kind === "dir") !== (after.kind === "dir")) {
+      changes.push({ type: "typechange", path, size: after.kind === "file" ? after.size : undefined, ino: after.ino });
+    } else if (await contentChanged(path, path, before, after)) {
+      changes.push({ type: "write", path, fileSize: after.size, ino: after.ino });
+    }
+  }
+
+  for (const [path, before] of oldTree) {
+    if (renamedTo.has(path) || (newTree.has(path) && !renamedFrom.has(path))) continue;
+    changes.push({ type: before.kind === "dir" ? "rmdir" : "unlink", path, ino: before.ino });
+  }
+
+  return collapseImpliedRenames(changes, (change) => modified.has(change));
+}
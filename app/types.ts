@@ -6,6 +6,7 @@ export interface Subvolume {
   parentId: number | null;
   uuid: string;
   parentUuid: string | null;
+  receivedUuid: string | null; // Set on subvolumes created by btrfs receive
   createdAt: Date;
   isSnapshot: boolean;
 }
@@ -13,6 +14,21 @@ export interface Subvolume {
 export interface Snapshot extends Subvolume {
   isSnapshot: true;
   sourceSubvolume: string;
+  snapper?: SnapperInfo; // Read from info.xml in snapper layout
+  retentionClass?: string; // From the name in naming layouts (e.g., hourly, daily)
+  // From qgroups, when quotas are enabled
+  referencedBytes?: number;
+  exclusiveBytes?: number; // Freed by deleting this snapshot alone
+}
+
+// Snapper's description of a snapshot (.snapshots/<n>/info.xml)
+export interface SnapperInfo {
+  number: number;
+  type: "single" | "pre" | "post";
+  preNumber?: number; // Post snapshots: the pre snapshot of the same transaction
+  description?: string;
+  cleanup?: string; // Cleanup algorithm: number, timeline, empty-pre-post
+  userdata: Record<string, string>;
 }
 
 export interface SubvolumeInfo {
@@ -23,7 +39,7 @@ export interface SubvolumeInfo {
   snapshots: Snapshot[];
 }
 
-// Change types from btrfs send --dump output
+// Change types from btrfs send streams
 // (excluding utimes/chmod/chown - too noisy for practical use)
 export type ChangeType =
   | "write"
@@ -34,27 +50,78 @@ export type ChangeType =
   | "link"
   | "symlink"
   | "truncate"
-  | "clone";
+  | "clone"
+  | "typechange" // net effect: a path changed between file and directory
+  // Metadata changes, only reported when metadata mode is enabled
+  | "chmod"
+  | "chown"
+  | "utimes"
+  | "xattr";
+
+// Data shared with another file by a clone (reflink)
+export interface CloneRange {
+  path: string; // source file
+  sourceOffset: number;
+  offset: number; // offset in the changed file
+  length: number;
+}
+
+// Old and new value of a changed metadata attribute
+export interface MetadataChange {
+  attribute: string; // "mode", "owner", "mtime" or the xattr name
+  oldValue?: string; // unknown when the old snapshot is not available
+  newValue?: string; // undefined when an xattr was removed
+}
 
 export interface FileChange {
   type: ChangeType;
   path: string;
-  oldPath?: string; // for rename operations
+  oldPath?: string; // for rename operations, and metadata changes under a moved directory
   size?: number;
+  offset?: number; // byte offset of write/clone operations
+  ranges?: [number, number][]; // merged [start, end) byte ranges rewritten in a modified file
+  fileSize?: number; // file size in the newer snapshot, when known
+  ino?: number; // inode number, when the send stream reveals it
+  linkedTo?: string; // for hardlinks, another name of the same inode
+  clonedBytes?: number; // bytes of the change that were reflinked rather than written
+  clones?: CloneRange[]; // where reflinked data came from
+  metadata?: MetadataChange;
 }
 
+// What produced a comparison
+export type ComparisonEngine =
+  | "btrfs-send" // decoded from btrfs send -p
+  | "history-index" // composed from the file history index
+  | "tree-walk"; // both directory trees walked and compared
+
 export interface SnapshotComparison {
   oldSnapshot: Snapshot;
   newSnapshot: Snapshot;
+  engine?: ComparisonEngine;
   changes: FileChange[];
   summary: {
     added: number;
     modified: number;
     deleted: number;
     renamed: number;
+    writtenBytes?: number; // new data written
+    clonedBytes?: number; // data reflinked from other files
   };
 }
 
+// A comparison parsed from an imported send stream or dump capture
+export interface ImportedComparison {
+  id: number;
+  name: string;
+  format: 'send-stream' | 'dump';
+  snapshotName: string | null;
+  snapshotUuid: string | null;
+  parentUuid: string | null;
+  createdAt: Date;
+  changes: FileChange[];
+  summary: SnapshotComparison['summary'];
+}
+
 // Diff types
 export interface FileDiff {
   path: string;
@@ -101,6 +168,7 @@ export interface FileHistoryEntry {
 export interface FileTimeline {
   currentPath: string;
   aliases: string[]; // All historical paths (for rename tracking)
+  hardlinks: string[]; // Current paths of other names of the same inode
   history: FileHistoryEntry[]; // Chronologically ordered
   firstSeen: Date;
   lastSeen: Date;
@@ -115,3 +183,38 @@ export interface IndexStatus {
     total: number;
   };
 }
+
+// Space that deleting a set of snapshots would free
+export interface ReclaimEstimate {
+  snapshotCount: number;
+  exclusiveBytes: number; // Held by a single one of the snapshots
+  sharedBytes: number; // Shared among the snapshots, but not with any other
+  totalBytes: number;
+  exclusiveSource: 'qgroup' | 'index' | 'mock';
+  sharedSource: 'index' | 'mock' | null; // null until the file history index is built
+}
+
+// A management action taken from the UI, as kept in the audit log
+export interface AuditEntry {
+  id: number;
+  action: 'create' | 'delete' | 'restore';
+  subvolumePath: string;
+  target: string; // Snapshot created or deleted, or path restored
+  status: 'success' | 'error';
+  message: string | null;
+  createdAt: Date;
+}
+
+// What restoring a path from a snapshot did, or would do in a dry run
+export interface RestoreResult {
+  snapshotPath: string;
+  path: string; // Inside the snapshot
+  targetPath: string; // Relative to BTRFS_ROOT
+  sourceSubvolume: string | null;
+  isDirectory: boolean;
+  files: number;
+  bytes: number;
+  conflict: 'none' | 'overwrite' | 'rename'; // How an existing target is handled
+  dryRun: boolean;
+  allowed: boolean; // Dry runs always work; restores need ALLOW_SNAPSHOT_MANAGEMENT
+}
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { buildDeleteCommands } from "./btrfs";
+
+const NASTY = ["/snaps/a\"$(touch pwned)`id`", "/snaps/it's", "/snaps/$HOME"];
+
+// What the shell would pass to the command
+function shellArgs(command: string): string[] {
+  const output = execFileSync("sh", ["-c", `set -- ${command}; for arg; do printf '%s\\0' "$arg"; done`]);
+  return output.toString().split("\0").slice(0, -1);
+}
+
+test("buildDeleteCommands quotes paths for the shell", () => {
+  const lines = buildDeleteCommands("/mnt/btrfs", NASTY).split("\n");
+
+  assert.equal(lines.length, 3);
+  lines.forEach((line, i) => {
+    assert.ok(line.startsWith("btrfs subvolume delete "));
+    assert.deepEqual(shellArgs(line.slice("btrfs subvolume delete ".length)), [`/mnt/btrfs${NASTY[i]}`]);
+  });
+});
+
+test("buildDeleteCommands uses rm for directory snapshots", () => {
+  assert.equal(buildDeleteCommands("/mnt/btrfs", ["/backups/daily.0"], false), "rm -rf '/mnt/btrfs/backups/daily.0'");
+});
@@ -1,10 +1,60 @@
 /**
  * Build the btrfs send command for comparing two snapshots
+ * Metadata commands are filtered out unless includeMetadata is set
  */
 export function buildBtrfsSendCommand(
   btrfsRoot: string,
   oldSnapshotPath: string,
-  newSnapshotPath: string
+  newSnapshotPath: string,
+  includeMetadata: boolean = false
 ): string {
-  return `btrfs send -p "${btrfsRoot}${oldSnapshotPath}" "${btrfsRoot}${newSnapshotPath}" | btrfs receive --dump | grep -vE "^(utimes|chmod|chown|update_extent) "`;
+  const dump = `btrfs send -p "${btrfsRoot}${oldSnapshotPath}" "${btrfsRoot}${newSnapshotPath}" | btrfs receive --dump`;
+  if (includeMetadata) {
+    return `${dump} | grep -vE "^update_extent "`;
+  }
+  return `${dump} | grep -vE "^(utimes|chmod|chown|set_xattr|remove_xattr|update_extent) "`;
+}
+
+/**
+ * Build a command listing differing files between a snapshot and another
+ * tree, e.g. the live subvolume that btrfs send can't read
+ */
+export function buildTreeDiffCommand(
+  btrfsRoot: string,
+  oldPath: string,
+  newPath: string
+): string {
+  return `diff -rq --no-dereference "${btrfsRoot}${oldPath}" "${btrfsRoot}${newPath}"`;
+}
+
+/**
+ * Short name of a snapshot for display
+ * Snapper snapshots (.snapshots/<n>/snapshot) are named by their number
+ */
+export function getSnapshotName(path: string): string {
+  const parts = path.split("/");
+  const name = parts[parts.length - 1];
+  return name === "snapshot" && parts.length > 2 ? parts[parts.length - 2] : name;
+}
+
+/**
+ * Quote a path for a copied shell command
+ * Wraps it in single quotes and escapes any single quotes
+ */
+function shellQuote(str: string): string {
+  return `'${str.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Build the commands deleting a set of snapshots, one per line
+ * Plain directory snapshots are removed with rm instead
+ */
+export function buildDeleteCommands(
+  btrfsRoot: string,
+  snapshotPaths: string[],
+  isBtrfs: boolean = true
+): string {
+  return snapshotPaths
+    .map((path) => isBtrfs ? `btrfs subvolume delete ${shellQuote(btrfsRoot + path)}` : `rm -rf ${shellQuote(btrfsRoot + path)}`)
+    .join("\n");
 }
@@ -0,0 +1,91 @@
+import type { FileChange, SnapshotComparison } from '~/types';
+
+export type ChangeSummary = SnapshotComparison['summary'];
+
+const ADDED_TYPES = new Set<FileChange['type']>(['mkdir', 'link', 'symlink']);
+const MODIFIED_TYPES = new Set<FileChange['type']>(['write', 'truncate', 'clone', 'typechange']);
+const DELETED_TYPES = new Set<FileChange['type']>(['unlink', 'rmdir']);
+
+/**
+ * Count net changes by category, and how much data was newly written
+ * versus reflinked from other files
+ *
+ * Expects one change per path, as produced by the send stream change builder.
+ * Metadata changes are not counted.
+ */
+export function summarizeChanges(changes: FileChange[]): ChangeSummary {
+  const summary: ChangeSummary = { added: 0, modified: 0, deleted: 0, renamed: 0 };
+  let writtenBytes = 0;
+  let clonedBytes = 0;
+
+  for (const change of changes) {
+    if (ADDED_TYPES.has(change.type)) summary.added++;
+    else if (MODIFIED_TYPES.has(change.type)) summary.modified++;
+    else if (DELETED_TYPES.has(change.type)) summary.deleted++;
+    else if (change.type === 'rename') summary.renamed++;
+    else continue;
+
+    if (change.size) {
+      const cloned = Math.min(change.clonedBytes || 0, change.size);
+      clonedBytes += cloned;
+      writtenBytes += change.size - cloned;
+    }
+  }
+
+  return { ...summary, writtenBytes, clonedBytes };
+}
+
+const METADATA_TYPES = new Set<FileChange['type']>(['chmod', 'chown', 'utimes', 'xattr']);
+
+export function isMetadataChange(change: FileChange): boolean {
+  return METADATA_TYPES.has(change.type);
+}
+
+/**
+ * Key identifying a change; xattr changes are per attribute
+ */
+export function changeKey(change: FileChange): string {
+  const key = `${change.type}:${change.path}`;
+  return change.metadata ? `${key}:${change.metadata.attribute}` : key;
+}
+
+/**
+ * Drop renames that only follow a renamed parent directory, as btrfs send
+ * reports just the directory itself. A modified file under a renamed
+ * directory becomes a write at its new path.
+ *
+ * For engines that see every moved path, like the history index or a tree walk.
+ */
+export function collapseImpliedRenames(changes: FileChange[], isModified: (change: FileChange) => boolean): FileChange[] {
+  const renamed = new Map<string, string>();
+  for (const change of changes) {
+    if (change.type === 'rename' && change.oldPath) {
+      renamed.set(change.oldPath, change.path);
+    }
+  }
+
+  const result: FileChange[] = [];
+  for (const change of changes) {
+    if (change.type === 'rename' && change.oldPath && impliedByParent(change.oldPath, change.path, renamed)) {
+      if (isModified(change)) {
+        const write: FileChange = { ...change, type: 'write' };
+        delete write.oldPath;
+        result.push(write);
+      }
+      continue;
+    }
+    result.push(change);
+  }
+  return result;
+}
+
+function impliedByParent(oldPath: string, newPath: string, renamed: Map<string, string>): boolean {
+  // Nearest renamed ancestor decides
+  for (let i = oldPath.lastIndexOf('/'); i > 0; i = oldPath.lastIndexOf('/', i - 1)) {
+    const parent = renamed.get(oldPath.slice(0, i));
+    if (parent !== undefined) {
+      return newPath === `${parent}${oldPath.slice(i)}`;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,12 @@
+export const ARCHIVE_FORMATS = ["tar.gz", "tar", "zip"] as const;
+
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
+
+/**
+ * URL downloading a file from a snapshot, or a directory as an archive
+ */
+export function buildDownloadUrl(snapshotPath: string, filePath: string, format?: ArchiveFormat): string {
+  const params = new URLSearchParams({ snapshot: snapshotPath, path: filePath });
+  if (format) params.set("format", format);
+  return `/api/download?${params}`;
+}
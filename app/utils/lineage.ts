@@ -0,0 +1,51 @@
+import type { Subvolume } from "~/types";
+
+/**
+ * Relationships between subvolumes by UUID
+ * A snapshot's parent is the subvolume it was snapshotted from (Parent UUID)
+ * or, for a full receive, the subvolume that was sent (Received UUID)
+ */
+export interface Lineage {
+  parentOf: Map<string, Subvolume>; // path -> lineage parent
+  childrenOf: Map<string, Subvolume[]>; // path -> snapshots taken or received from it
+}
+
+export function buildLineage(subvolumes: Subvolume[]): Lineage {
+  const byUuid = new Map<string, Subvolume>();
+  for (const sv of subvolumes) {
+    if (sv.uuid) byUuid.set(sv.uuid, sv);
+  }
+
+  const parentOf = new Map<string, Subvolume>();
+  const childrenOf = new Map<string, Subvolume[]>();
+  for (const sv of subvolumes) {
+    const parent =
+      (sv.parentUuid ? byUuid.get(sv.parentUuid) : undefined) ??
+      (sv.receivedUuid ? byUuid.get(sv.receivedUuid) : undefined);
+    if (!parent || parent === sv) continue;
+
+    parentOf.set(sv.path, parent);
+    const children = childrenOf.get(parent.path);
+    if (children) children.push(sv);
+    else childrenOf.set(parent.path, [sv]);
+  }
+
+  return { parentOf, childrenOf };
+}
+
+/**
+ * Follow parents up to the original subvolume of a lineage
+ * Snapshots whose origin is gone (deleted, or received from another
+ * filesystem) are their own root
+ */
+export function getLineageRoot(lineage: Lineage, subvolume: Subvolume): Subvolume {
+  const seen = new Set<string>();
+  let current = subvolume;
+  while (!seen.has(current.path)) {
+    seen.add(current.path);
+    const parent = lineage.parentOf.get(current.path);
+    if (!parent) break;
+    current = parent;
+  }
+  return current;
+}
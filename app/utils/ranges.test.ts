@@ -0,0 +1,51 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { addRange, coalesceRanges, rangeBytes, type ByteRange } from "./ranges";
+
+function build(...writes: ByteRange[]): ByteRange[] {
+  const ranges: ByteRange[] = [];
+  for (const [start, end] of writes) addRange(ranges, start, end);
+  return ranges;
+}
+
+describe("addRange", () => {
+  test("appends and extends in write order", () => {
+    assert.deepEqual(build([0, 10], [10, 20], [30, 40], [35, 50]), [[0, 20], [30, 50]]);
+  });
+
+  test("inserts out-of-order writes in place", () => {
+    assert.deepEqual(build([100, 200], [0, 10], [50, 60]), [[0, 10], [50, 60], [100, 200]]);
+  });
+
+  test("merges every range a write overlaps or touches", () => {
+    assert.deepEqual(build([0, 10], [20, 30], [40, 50], [60, 70], [10, 45]), [[0, 50], [60, 70]]);
+    assert.deepEqual(build([10, 20], [30, 40], [50, 60], [0, 100]), [[0, 100]]);
+  });
+
+  test("ignores empty writes", () => {
+    assert.deepEqual(build([0, 10], [20, 20], [30, 25]), [[0, 10]]);
+  });
+
+  test("counts rewritten bytes once", () => {
+    assert.equal(rangeBytes(build([0, 4096], [0, 4096], [2048, 8192])), 8192);
+  });
+});
+
+describe("coalesceRanges", () => {
+  const ranges: ByteRange[] = [[0, 10], [12, 20], [30, 40], [100, 110], [111, 120]];
+
+  test("leaves short lists alone", () => {
+    assert.equal(coalesceRanges(ranges, 5), ranges);
+  });
+
+  test("closes the smallest gaps first", () => {
+    assert.deepEqual(coalesceRanges(ranges, 3), [[0, 20], [30, 40], [100, 120]]);
+    assert.deepEqual(coalesceRanges(ranges, 2), [[0, 40], [100, 120]]);
+    assert.deepEqual(coalesceRanges(ranges, 1), [[0, 120]]);
+  });
+
+  test("does not change the input", () => {
+    coalesceRanges(ranges, 1);
+    assert.deepEqual(ranges[0], [0, 10]);
+  });
+});
@@ -0,0 +1,73 @@
+// A half-open byte range [start, end)
+export type ByteRange = [number, number];
+
+/**
+ * Add a byte range to a sorted list of non-overlapping ranges, merging
+ * it with any ranges it overlaps or touches
+ *
+ * Send streams write files front to back, so the common case of appending
+ * right after the last range is handled without searching.
+ */
+export function addRange(ranges: ByteRange[], start: number, end: number): void {
+  if (end <= start) return;
+
+  const last = ranges[ranges.length - 1];
+  if (!last || start > last[1]) {
+    ranges.push([start, end]);
+    return;
+  }
+  if (start >= last[0]) {
+    last[1] = Math.max(last[1], end);
+    return;
+  }
+
+  // First range that ends at or after start
+  let low = 0;
+  let high = ranges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid][1] < start) low = mid + 1;
+    else high = mid;
+  }
+
+  // Merge every range overlapping [start, end]
+  let mergeEnd = low;
+  let newStart = start;
+  let newEnd = end;
+  while (mergeEnd < ranges.length && ranges[mergeEnd][0] <= end) {
+    newStart = Math.min(newStart, ranges[mergeEnd][0]);
+    newEnd = Math.max(newEnd, ranges[mergeEnd][1]);
+    mergeEnd++;
+  }
+  ranges.splice(low, mergeEnd - low, [newStart, newEnd]);
+}
+
+/**
+ * Total number of bytes covered by merged ranges
+ */
+export function rangeBytes(ranges: ByteRange[]): number {
+  return ranges.reduce((total, [start, end]) => total + end - start, 0);
+}
+
+/**
+ * Reduce a range list to at most maxRanges entries by closing the
+ * smallest gaps first, for display of heavily fragmented files
+ */
+export function coalesceRanges(ranges: ByteRange[], maxRanges: number): ByteRange[] {
+  if (ranges.length <= maxRanges) return ranges;
+
+  const gaps = ranges.slice(1).map((range, i) => range[0] - ranges[i][1]).sort((a, b) => a - b);
+  // Gaps up to this size are closed
+  const threshold = gaps[ranges.length - maxRanges - 1];
+
+  const result: ByteRange[] = [[...ranges[0]]];
+  for (let i = 1; i < ranges.length; i++) {
+    const last = result[result.length - 1];
+    if (ranges[i][0] - last[1] <= threshold) {
+      last[1] = ranges[i][1];
+    } else {
+      result.push([...ranges[i]]);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Snapshot } from "~/types";
+import { applyRetention, type RetentionPolicy } from "./retention";
+
+const NONE: RetentionPolicy = { hourly: 0, daily: 0, weekly: 0, monthly: 0, yearly: 0 };
+
+// Local times, like the snapshot names they are read from
+function snapshot(year: number, month: number, day: number, hour = 0, minute = 0): Snapshot {
+  const createdAt = new Date(year, month - 1, day, hour, minute);
+  return {
+    id: createdAt.getTime(),
+    path: `/.snapshots/${year}-${month}-${day}_${hour}${minute}`,
+    parentId: null,
+    uuid: "",
+    parentUuid: null,
+    receivedUuid: null,
+    createdAt,
+    isSnapshot: true,
+    sourceSubvolume: "/@",
+  };
+}
+
+// Kept snapshots in input order, with the reasons
+function kept(snapshots: Snapshot[], policy: Partial<RetentionPolicy>) {
+  const decisions = applyRetention(snapshots, { ...NONE, ...policy });
+  return snapshots
+    .filter((s) => decisions.get(s.path)!.keep)
+    .map((s) => [s.path, decisions.get(s.path)!.reasons]);
+}
+
+describe("applyRetention", () => {
+  const snapshots = [
+    snapshot(2026, 1, 30, 8, 0),
+    snapshot(2026, 1, 28, 10),
+    snapshot(2026, 1, 29, 18),
+    snapshot(2026, 1, 28, 12),
+    snapshot(2026, 1, 30, 8, 30),
+    snapshot(2026, 1, 29, 9),
+  ];
+
+  test("keeps the newest snapshot of each of the last periods", () => {
+    assert.deepEqual(kept(snapshots, { hourly: 2, daily: 3, monthly: 1 }), [
+      ["/.snapshots/2026-1-29_180", ["hourly 2026-01-29 18:00", "daily 2026-01-29"]],
+      ["/.snapshots/2026-1-28_120", ["daily 2026-01-28"]],
+      ["/.snapshots/2026-1-30_830", ["hourly 2026-01-30 08:00", "daily 2026-01-30", "monthly 2026-01"]],
+    ]);
+  });
+
+  test("gives every snapshot a decision", () => {
+    const decisions = applyRetention(snapshots, { ...NONE, daily: 1 });
+
+    assert.equal(decisions.size, snapshots.length);
+    assert.deepEqual(decisions.get("/.snapshots/2026-1-30_80"), { keep: false, reasons: [] });
+  });
+
+  test("prunes everything with an empty policy", () => {
+    assert.deepEqual(kept(snapshots, {}), []);
+  });
+
+  test("keeps what there is when periods outnumber snapshots", () => {
+    assert.equal(kept(snapshots, { yearly: 10 }).length, 1);
+    assert.equal(kept(snapshots, { hourly: 100 }).length, 5);
+  });
+
+  test("counts ISO weeks across the turn of the year", () => {
+    const weeks = [
+      snapshot(2025, 12, 28), // Sunday, 2025-W52
+      snapshot(2025, 12, 31), // Wednesday, 2026-W01
+      snapshot(2026, 1, 2), // Friday, 2026-W01
+      snapshot(2026, 1, 5), // Monday, 2026-W02
+    ];
+
+    assert.deepEqual(kept(weeks, { weekly: 3 }), [
+      ["/.snapshots/2025-12-28_00", ["weekly 2025-W52"]],
+      ["/.snapshots/2026-1-2_00", ["weekly 2026-W01"]],
+      ["/.snapshots/2026-1-5_00", ["weekly 2026-W02"]],
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { Snapshot } from "~/types";
+
+export const RETENTION_PERIODS = ["hourly", "daily", "weekly", "monthly", "yearly"] as const;
+
+export type RetentionPeriod = (typeof RETENTION_PERIODS)[number];
+
+// How many of the most recent periods keep a snapshot
+export type RetentionPolicy = Record<RetentionPeriod, number>;
+
+export interface RetentionDecision {
+  keep: boolean;
+  reasons: string[]; // e.g. "daily 2026-01-28", empty when pruned
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// ISO 8601 week, e.g. 2026-W05
+function isoWeek(date: Date): string {
+  // The week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+}
+
+function periodOf(date: Date, period: RetentionPeriod): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  switch (period) {
+    case "hourly":
+      return `${day} ${pad(date.getHours())}:00`;
+    case "daily":
+      return day;
+    case "weekly":
+      return isoWeek(date);
+    case "monthly":
+      return day.slice(0, 7);
+    case "yearly":
+      return day.slice(0, 4);
+  }
+}
+
+/**
+ * Decide which snapshots a policy keeps
+ * For each period, the newest snapshot of each of the last N periods that
+ * have snapshots is kept (like restic forget or btrbk's preserve). Everything
+ * not kept by any period is pruned.
+ */
+export function applyRetention(snapshots: Snapshot[], policy: RetentionPolicy): Map<string, RetentionDecision> {
+  const newestFirst = [...snapshots].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+  const decisions = new Map<string, RetentionDecision>(
+    newestFirst.map((s) => [s.path, { keep: false, reasons: [] }])
+  );
+
+  for (const period of RETENTION_PERIODS) {
+    const count = policy[period];
+    let kept = 0;
+    let lastBucket: string | null = null;
+
+    for (const snapshot of newestFirst) {
+      if (kept >= count) break;
+      const bucket = periodOf(new Date(snapshot.createdAt), period);
+      if (bucket === lastBucket) continue;
+
+      lastBucket = bucket;
+      kept++;
+      const decision = decisions.get(snapshot.path)!;
+      decision.keep = true;
+      decision.reasons.push(`${period} ${bucket}`);
+    }
+  }
+
+  return decisions;
+}
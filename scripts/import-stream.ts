@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+
+/**
+ * CLI script to import a saved send stream or dump capture
+ *
+ * Usage:
+ *   npm run import-stream backup.send
+ *   btrfs receive --dump < backup.send > backup.dump && npm run import-stream backup.dump
+ *   ssh backup-host cat /backups/home.send | npm run import-stream -
+ *   npm run import-stream -- --metadata backup.send
+ *
+ * --metadata keeps permission, ownership, timestamp and xattr changes.
+ *
+ * The result is stored as a virtual comparison and can be explored in the
+ * web UI under /imports without access to the original filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { importChangeStream } from '../app/services/stream-import.server';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const metadata = args.includes('--metadata');
+  const file = args.find((arg) => arg !== '--metadata');
+
+  if (!file) {
+    console.error('Usage: npm run import-stream [--metadata] <file|->');
+    console.error('Example: npm run import-stream /backups/home-2026-01-29.send');
+    process.exit(1);
+  }
+
+  const fromStdin = file === '-';
+  const name = fromStdin ? 'stdin' : path.basename(file);
+  const source = fromStdin ? process.stdin : fs.createReadStream(file);
+
+  console.log(`Importing: ${fromStdin ? 'stdin' : file}`);
+
+  try {
+    const imported = await importChangeStream(name, source, { metadata });
+
+    console.log(`Format: ${imported.format}`);
+    if (imported.snapshotName) {
+      console.log(`Snapshot: ${imported.snapshotName}`);
+    }
+    console.log(
+      `Changes: ${imported.changes.length} ` +
+      `(${imported.summary.added} added, ${imported.summary.modified} modified, ` +
+      `${imported.summary.deleted} deleted, ${imported.summary.renamed} renamed)`
+    );
+    console.log(`✅ Imported as /imports/${imported.id}`);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Import failed:');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();